@@ -1,4 +1,5 @@
 import { MuseScoreDisplay } from "../src/index";
+import { KeyEnum } from "opensheetmusicdisplay";
 import { jsPDF } from "jspdf";
 
 // --- Sample files ---
@@ -122,9 +123,17 @@ function updateZoomDisplay() {
 
 function updateKeyDisplay() {
   const key = display.originalKey;
-  if (key) {
+  if (key && key.mode === KeyEnum.none) {
+    // Atonal and custom keys can't be transposed to a target key
     originalKeyBadge.textContent = key.name;
-    originalKeyBadge.title = `Detected key: ${key.name} (${key.fifths} fifths)`;
+    originalKeyBadge.title = `Detected key: ${key.name}`;
+    keySelect.disabled = true;
+    keySelect.value = "";
+  } else if (key) {
+    const changes = display.keyChanges.length - 1;
+    originalKeyBadge.textContent = key.name;
+    originalKeyBadge.title = `Detected key: ${key.name} (${key.fifths} fifths)` +
+      (changes > 0 ? `, ${changes} key change(s)` : "");
     keySelect.disabled = false;
     // Pre-select the original key in the dropdown
     keySelect.value = String(key.fifths);
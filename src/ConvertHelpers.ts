@@ -2,6 +2,8 @@
  * Lookup tables and helpers for MSCX → MusicXML conversion.
  */
 
+import { MscxElement } from "./MscxTypes";
+
 /** Duration info: MusicXML type name and base tick count at divisions=480. */
 export interface DurationInfo {
   xmlType: string;
@@ -38,6 +40,22 @@ export function calcDuration(durationType: string, dots: number): number {
   return total;
 }
 
+/** Calculate actual tick duration, scaled by every enclosing tuplet (outermost first). */
+export function calcTupletAdjustedDuration(elem: MscxElement): number {
+  let duration = calcDuration(elem.durationType, elem.dots);
+  for (const tuplet of elem.tuplet?.stack ?? []) {
+    duration = duration * tuplet.normalNotes / tuplet.actualNotes;
+  }
+  return Math.round(duration);
+}
+
+/** The duration type of twice the given value (e.g. "quarter" → "half"). */
+export function doubleDurationType(durationType: string): string {
+  const ticks = DURATION_MAP[durationType]?.ticks;
+  const doubled = Object.keys(DURATION_MAP).find(key => DURATION_MAP[key].ticks === ticks * 2);
+  return doubled ?? durationType;
+}
+
 /** Clef mapping: MSCX clef name → MusicXML sign, line, and optional octave-change. */
 export interface ClefInfo {
   sign: string;
@@ -86,6 +104,49 @@ export const ACCIDENTAL_MAP: Record<string, string> = {
   "accidentalNaturalFlat":   "natural-flat",
 };
 
+/**
+ * Notehead mapping: MSCX head group (v3 names and v2 numbers) → MusicXML <notehead> value.
+ */
+export const NOTEHEAD_MAP: Record<string, string> = {
+  // v3 names
+  "normal":        "normal",
+  "cross":         "x",
+  "plus":          "cross",
+  "xcircle":       "circle-x",
+  "withx":         "x",
+  "triangle-up":   "triangle",
+  "triangle-down": "inverted triangle",
+  "slashed1":      "slashed",
+  "slashed2":      "back slashed",
+  "diamond":       "diamond",
+  "diamond-old":   "diamond",
+  "circled":       "circled",
+  "circled-large": "circled",
+  "large-arrow":   "arrow up",
+  "slash":         "slash",
+  "do":            "do",
+  "re":            "re",
+  "mi":            "mi",
+  "fa":            "fa",
+  "sol":           "so",
+  "la":            "la",
+  "ti":            "ti",
+  // v2 numbers
+  "0":  "normal",
+  "1":  "x",
+  "2":  "diamond",
+  "3":  "triangle",
+  "4":  "mi",
+  "5":  "slash",
+  "6":  "circle-x",
+  "7":  "do",
+  "8":  "re",
+  "9":  "fa",
+  "10": "la",
+  "11": "ti",
+  "12": "so",
+};
+
 /**
  * Ornament/articulation mapping: MSCX subtype → { category, xmlElement }.
  * Categories: "ornaments", "articulations", "technical", "fermata".
@@ -136,9 +197,132 @@ export function getClefInfo(clefName: string): ClefInfo {
   return CLEF_MAP[clefName] || CLEF_MAP["G"];
 }
 
+/**
+ * Get the MusicXML display step/octave for a percussion staff position.
+ * Line 0 is the top line of a 5-line staff (F5 in percussion/treble positions),
+ * each line step moves one diatonic step down.
+ */
+export function percussionLineToDisplay(line: number): { step: string; octave: number } {
+  const STEPS = ["C", "D", "E", "F", "G", "A", "B"];
+  const diatonic = 5 * 7 + 3 - line; // F5
+  return { step: STEPS[((diatonic % 7) + 7) % 7], octave: Math.floor(diatonic / 7) };
+}
+
 /**
  * Get the MusicXML accidental name from an MSCX accidental subtype.
  */
 export function getAccidentalName(mscxName: string): string | undefined {
   return ACCIDENTAL_MAP[mscxName];
 }
+
+/** A MusicXML <degree> (added, altered or subtracted chord tone). */
+export interface HarmonyDegree {
+  value: number;
+  alter: number;
+  type: "add" | "alter" | "subtract";
+}
+
+/**
+ * Chord-name prefixes (text after the root in MuseScore) → MusicXML <kind> and
+ * the highest chord tone the kind implies (used to tell "alter" from "add" degrees).
+ * Matched longest-first.
+ */
+const HARMONY_KIND_MAP: Record<string, { kind: string; top: number }> = {
+  "":       { kind: "major", top: 5 },
+  "maj":    { kind: "major", top: 5 },
+  "M":      { kind: "major", top: 5 },
+  "5":      { kind: "power", top: 5 },
+  "6":      { kind: "major-sixth", top: 6 },
+  "7":      { kind: "dominant", top: 7 },
+  "9":      { kind: "dominant-ninth", top: 9 },
+  "11":     { kind: "dominant-11th", top: 11 },
+  "13":     { kind: "dominant-13th", top: 13 },
+  "maj7":   { kind: "major-seventh", top: 7 },
+  "Maj7":   { kind: "major-seventh", top: 7 },
+  "ma7":    { kind: "major-seventh", top: 7 },
+  "M7":     { kind: "major-seventh", top: 7 },
+  "^7":     { kind: "major-seventh", top: 7 },
+  "^":      { kind: "major-seventh", top: 7 },
+  "Δ7":     { kind: "major-seventh", top: 7 },
+  "Δ":      { kind: "major-seventh", top: 7 },
+  "maj9":   { kind: "major-ninth", top: 9 },
+  "^9":     { kind: "major-ninth", top: 9 },
+  "maj11":  { kind: "major-11th", top: 11 },
+  "maj13":  { kind: "major-13th", top: 13 },
+  "^13":    { kind: "major-13th", top: 13 },
+  "m":      { kind: "minor", top: 5 },
+  "mi":     { kind: "minor", top: 5 },
+  "min":    { kind: "minor", top: 5 },
+  "-":      { kind: "minor", top: 5 },
+  "m6":     { kind: "minor-sixth", top: 6 },
+  "-6":     { kind: "minor-sixth", top: 6 },
+  "m7":     { kind: "minor-seventh", top: 7 },
+  "mi7":    { kind: "minor-seventh", top: 7 },
+  "min7":   { kind: "minor-seventh", top: 7 },
+  "-7":     { kind: "minor-seventh", top: 7 },
+  "m9":     { kind: "minor-ninth", top: 9 },
+  "-9":     { kind: "minor-ninth", top: 9 },
+  "m11":    { kind: "minor-11th", top: 11 },
+  "-11":    { kind: "minor-11th", top: 11 },
+  "m13":    { kind: "minor-13th", top: 13 },
+  "mMaj7":  { kind: "major-minor", top: 7 },
+  "m(maj7)": { kind: "major-minor", top: 7 },
+  "m^7":    { kind: "major-minor", top: 7 },
+  "-^7":    { kind: "major-minor", top: 7 },
+  "m7b5":   { kind: "half-diminished", top: 7 },
+  "m7(b5)": { kind: "half-diminished", top: 7 },
+  "-7b5":   { kind: "half-diminished", top: 7 },
+  "ø":      { kind: "half-diminished", top: 7 },
+  "ø7":     { kind: "half-diminished", top: 7 },
+  "dim":    { kind: "diminished", top: 5 },
+  "o":      { kind: "diminished", top: 5 },
+  "°":      { kind: "diminished", top: 5 },
+  "dim7":   { kind: "diminished-seventh", top: 7 },
+  "o7":     { kind: "diminished-seventh", top: 7 },
+  "°7":     { kind: "diminished-seventh", top: 7 },
+  "aug":    { kind: "augmented", top: 5 },
+  "+":      { kind: "augmented", top: 5 },
+  "aug7":   { kind: "augmented-seventh", top: 7 },
+  "+7":     { kind: "augmented-seventh", top: 7 },
+  "7#5":    { kind: "augmented-seventh", top: 7 },
+  "sus":    { kind: "suspended-fourth", top: 5 },
+  "sus4":   { kind: "suspended-fourth", top: 5 },
+  "sus2":   { kind: "suspended-second", top: 5 },
+};
+
+/**
+ * Split a MuseScore chord name (e.g. "m7", "7(b9)", "maj7#11", "7sus4") into a
+ * MusicXML kind plus extra degrees. Unrecognized names fall back to "major" so
+ * the chord still renders, with the original text kept for display.
+ */
+export function parseChordName(name: string): { kind: string; degrees: HarmonyDegree[] } {
+  const compact = name.replace(/\s+/g, "");
+
+  // Longest matching kind prefix
+  let prefix = "";
+  for (const key of Object.keys(HARMONY_KIND_MAP)) {
+    if (key.length > prefix.length && compact.startsWith(key)) prefix = key;
+  }
+  const { kind, top } = HARMONY_KIND_MAP[prefix];
+
+  // Remaining text: alterations and additions like "b9", "(#11)", "add9", "omit3", "sus4"
+  const degrees: HarmonyDegree[] = [];
+  const rest = compact.substring(prefix.length);
+  const re = /(add|omit|no|sus)?([#b♯♭]?)(\d+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = re.exec(rest)) !== null) {
+    const value = parseInt(match[3]);
+    const alter = match[2] === "#" || match[2] === "♯" ? 1 : match[2] === "b" || match[2] === "♭" ? -1 : 0;
+    if (match[1] === "omit" || match[1] === "no") {
+      degrees.push({ value, alter: 0, type: "subtract" });
+    } else if (match[1] === "sus") {
+      // e.g. "7sus4": replace the third with the suspended tone
+      degrees.push({ value: 3, alter: 0, type: "subtract" });
+      degrees.push({ value, alter: 0, type: "add" });
+    } else {
+      degrees.push({ value, alter, type: !match[1] && value <= top && alter !== 0 ? "alter" : "add" });
+    }
+  }
+
+  return { kind, degrees };
+}
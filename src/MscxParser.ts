@@ -5,8 +5,11 @@
 import {
   MscxScore, MscxPart, MscxInstrument, MscxMeasure, MscxVoice,
   MscxElement, MscxChord, MscxNote, MscxRest, MscxLyric, MscxTempo,
-  MscxTupletInfo,
+  MscxTupletInfo, MscxVolta, MscxMarker, MscxJump, MscxHarmony, MscxDrum, MscxOttava, MscxPedal,
+  MscxWavyLine, MscxGlissando, MscxTremolo, MscxTuplet, MscxMetadata, MscxPageLayout, MscxPartGroup,
+  MscxTimeSig, MscxBarline, MscxBarlineType, MscxKeySig, MscxKeyMode, MscxKeyAccidental,
 } from "./MscxTypes";
+import { calcTupletAdjustedDuration } from "./ConvertHelpers";
 
 /** Get text content of first matching child element, or empty string. */
 function childText(parent: Element, tagName: string): string {
@@ -41,6 +44,24 @@ let v3SlurCounter: number;
 let v3HairpinCounter: number;
 // Division (ticks per quarter note) for the current parse, used by sub-parsers
 let parseDivision: number;
+// Counters for the MusicXML numbers of ottava and trill/vibrato lines
+let ottavaCounter: number;
+let wavyLineCounter: number;
+// Ottava, pedal and trill/vibrato lines of the staff being parsed, per voice:
+// their markers sit in the voice that carries the line
+let staffSpanners: Map<number, VoiceSpanners>;
+// Lines of the voice being parsed
+let spanners: VoiceSpanners;
+// Glissando lines: counter for MusicXML numbers and the lines of the current staff
+// whose end note has not been reached (v2 spanner ID if any), oldest first
+let glissandoCounter: number;
+let openGlissandi: { id: string | null; glissando: MscxGlissando }[];
+// Second half of a two-chord tremolo, attached to the next chord parsed
+let pendingTremoloStop: MscxTremolo | null;
+// Generated IDs for v3 tuplets, which have none in the file
+let tupletCounter: number;
+// Drum kit of the staff currently being parsed (undefined for pitched staves)
+let parseDrumset: Map<number, MscxDrum> | undefined;
 
 /** Parse the MSCX XML string into the IR. */
 export function parseMscx(xmlString: string): MscxScore {
@@ -52,7 +73,12 @@ export function parseMscx(xmlString: string): MscxScore {
   nextSlurNum = 1;
   v3SlurCounter = 1;
   v3HairpinCounter = 1;
+  ottavaCounter = 1;
+  wavyLineCounter = 1;
+  glissandoCounter = 1;
+  tupletCounter = 1;
   parseDivision = 480; // default, overridden below
+  parseDrumset = undefined;
 
   const museScoreEl = doc.documentElement;
   const version = parseFloat(museScoreEl.getAttribute("version") || "2.0");
@@ -67,30 +93,40 @@ export function parseMscx(xmlString: string): MscxScore {
   parseDivision = division;
 
   // Parse metadata
-  const { title, composer, lyricist } = parseMetadata(scoreEl);
+  const { title, composer, lyricist, metadata } = parseMetadata(scoreEl);
+  const page = parsePageLayout(scoreEl);
 
   // Parse parts
   const parts = parseParts(scoreEl);
+  const partGroups = parsePartGroups(scoreEl, isV3);
 
   // Parse staff data (measures)
-  const staffData = parseStaffData(scoreEl, isV3);
+  const staffData = parseStaffData(scoreEl, isV3, parts);
 
-  return { version, division, title, composer, lyricist, parts, staffData };
+  return { version, division, title, composer, lyricist, metadata, page, parts, partGroups, staffData };
 }
 
-function parseMetadata(scoreEl: Element): { title: string; composer: string; lyricist: string } {
+function parseMetadata(scoreEl: Element): { title: string; composer: string; lyricist: string; metadata: MscxMetadata } {
   let title = "";
   let composer = "";
   let lyricist = "";
+  const metadata: MscxMetadata = {
+    subtitle: "", arranger: "", poet: "", translator: "", copyright: "", source: "",
+    frameTexts: [],
+  };
 
   // From <metaTag> elements
   const metaTags = scoreEl.getElementsByTagName("metaTag");
   for (let i = 0; i < metaTags.length; i++) {
     const name = metaTags[i].getAttribute("name");
     const value = metaTags[i].textContent?.trim() ?? "";
-    if (name === "workTitle" && value) title = value;
-    if (name === "composer" && value) composer = value;
-    if (name === "lyricist" && value) lyricist = value;
+    if (!value) continue;
+    if (name === "workTitle") title = value;
+    if (name === "composer") composer = value;
+    if (name === "lyricist") lyricist = value;
+    if (name === "arranger" || name === "poet" || name === "translator" || name === "copyright" || name === "source") {
+      metadata[name] = value;
+    }
   }
 
   // Override from VBox title text if present
@@ -102,11 +138,62 @@ function parseMetadata(scoreEl: Element): { title: string; composer: string; lyr
       const text = childText(texts[j], "text");
       if (style === "title" && text) title = text;
       if (style === "composer" && text) composer = text;
-      if (style === "lyricist" && text) lyricist = text;
+      // v2 calls the lyricist style "Poet"
+      if ((style === "lyricist" || style === "poet") && text) lyricist = text;
+    }
+  }
+
+  // Remaining texts of the frames that open the score (the first staff holds the frames)
+  const firstStaff = directChildren(scoreEl, "Staff")[0];
+  for (const frame of Array.from(firstStaff?.children ?? [])) {
+    if (frame.tagName === "Measure") break;
+    if (frame.tagName !== "VBox" && frame.tagName !== "TBox") continue;
+    for (const textEl of directChildren(frame, "Text")) {
+      const style = childText(textEl, "style").toLowerCase().replace(/ /g, "_");
+      // Indentation of continuation lines is XML formatting, not part of the text
+      const text = childText(textEl, "text").split("\n").map(line => line.trim()).join("\n");
+      if (!text || style === "title" || style === "composer" || style === "lyricist" || style === "poet") continue;
+      if (style === "subtitle") metadata.subtitle = text;
+      else if (style === "translator") metadata.translator = text;
+      else metadata.frameTexts.push({ style, text });
     }
   }
 
-  return { title, composer, lyricist };
+  return { title, composer, lyricist, metadata };
+}
+
+/**
+ * Read page size, margins and staff space from <Style>. v3+ stores inches
+ * (pageWidth, pageOddTopMargin, ...); v2 has a <page-layout> block in 1/144
+ * inch. Missing values fall back to MuseScore's A4 defaults.
+ */
+function parsePageLayout(scoreEl: Element): MscxPageLayout {
+  const styleEl = directChildren(scoreEl, "Style")[0];
+  const read = (tagName: string, scale: number, fallback: number): number => {
+    const value = styleEl ? parseFloat(childText(styleEl, tagName)) : NaN;
+    return value > 0 ? value * scale : fallback;
+  };
+  const spatium = read("Spatium", 1, 1.764);
+
+  if (styleEl && directChildren(styleEl, "page-layout").length > 0) {
+    const v2 = 1 / 144;
+    return {
+      width: read("page-width", v2, 8.27), height: read("page-height", v2, 11.69),
+      topMargin: read("top-margin", v2, 0.59), bottomMargin: read("bottom-margin", v2, 0.59),
+      leftMargin: read("left-margin", v2, 0.59), rightMargin: read("right-margin", v2, 0.59),
+      spatium,
+    };
+  }
+
+  const width = read("pageWidth", 1, 8.27);
+  const leftMargin = read("pageOddLeftMargin", 1, 0.59);
+  const printableWidth = read("pagePrintableWidth", 1, width - 2 * leftMargin);
+  return {
+    width, height: read("pageHeight", 1, 11.69),
+    topMargin: read("pageOddTopMargin", 1, 0.59), bottomMargin: read("pageOddBottomMargin", 1, 0.59),
+    leftMargin, rightMargin: Math.max(0, width - leftMargin - printableWidth),
+    spatium,
+  };
 }
 
 function parseParts(scoreEl: Element): MscxPart[] {
@@ -136,12 +223,80 @@ function parseParts(scoreEl: Element): MscxPart[] {
     const instrumentEl = partEl.getElementsByTagName("Instrument")[0];
     const instrument = parseInstrument(instrumentEl);
 
+    // Tablature and percussion staves: the staff type implies the clef
+    for (let si = 0; si < staffEls.length; si++) {
+      const staffTypeEl = directChildren(staffEls[si], "StaffType")[0];
+      const group = staffTypeEl?.getAttribute("group");
+      if (group === "percussion") {
+        instrument.clefs.set(si + 1, "PERC");
+        continue;
+      }
+      if (group !== "tablature") continue;
+      const lines = parseInt(childText(staffTypeEl, "lines")) || instrument.stringTuning?.length || 6;
+      if (!instrument.tabStaves) instrument.tabStaves = new Map();
+      instrument.tabStaves.set(si + 1, lines);
+      instrument.clefs.set(si + 1, "TAB");
+    }
+
     parts.push({ staffIds, trackName, instrument });
   }
 
   return parts;
 }
 
+/** MuseScore bracket types (<bracket type="N">) */
+const BRACKET_SYMBOLS: Record<string, MscxPartGroup["symbol"]> = {
+  "0": "bracket", "1": "brace", "2": "square", "3": "line",
+};
+
+/**
+ * Parse brackets spanning more than one part. A bracket sits on the first
+ * staff it spans and counts staves score-wide; brackets within a single part
+ * (a piano's brace) are left to the part itself. Connected barlines are
+ * <barLineSpan> on each staff: v3+ flags the staff as joined to the next one,
+ * v2 gives the number of staves the barline covers.
+ */
+function parsePartGroups(scoreEl: Element, isV3: boolean): MscxPartGroup[] {
+  const staffParts: number[] = [];
+  // Staves whose barlines continue down to the next staff
+  const joinedToNext = new Set<number>();
+  const brackets: { staff: number; span: number; symbol: MscxPartGroup["symbol"] }[] = [];
+
+  directChildren(scoreEl, "Part").forEach((partEl, p) => {
+    for (const staffEl of directChildren(partEl, "Staff")) {
+      const staff = staffParts.length;
+      staffParts.push(p);
+
+      for (const bracketEl of directChildren(staffEl, "bracket")) {
+        const symbol = BRACKET_SYMBOLS[bracketEl.getAttribute("type") ?? ""];
+        const span = parseInt(bracketEl.getAttribute("span") ?? "") || 0;
+        if (symbol && span > 1) brackets.push({ staff, span, symbol });
+      }
+
+      const barLineSpan = parseInt(childText(staffEl, "barLineSpan"));
+      if (isV3) {
+        if (barLineSpan > 0) joinedToNext.add(staff);
+      } else {
+        for (let i = 0; i < barLineSpan - 1; i++) joinedToNext.add(staff + i);
+      }
+    }
+  });
+
+  const groups: MscxPartGroup[] = [];
+  for (const { staff, span, symbol } of brackets) {
+    const lastStaff = Math.min(staff + span, staffParts.length) - 1;
+    const firstPart = staffParts[staff];
+    const lastPart = staffParts[lastStaff];
+    if (firstPart === lastPart) continue;
+    let barline = true;
+    for (let i = staff; i < lastStaff; i++) {
+      if (!joinedToNext.has(i)) barline = false;
+    }
+    groups.push({ firstPart, lastPart, symbol, barline });
+  }
+  return groups;
+}
+
 function parseInstrument(el: Element | undefined): MscxInstrument {
   if (!el) {
     return {
@@ -166,12 +321,46 @@ function parseInstrument(el: Element | undefined): MscxInstrument {
     }
   }
 
-  return { longName, shortName, transposeDiatonic, transposeChromatic, clefs };
+  // String tuning for fretted instruments: <StringData><string>40</string>... (lowest first)
+  let stringTuning: number[] | undefined;
+  const stringDataEl = el.getElementsByTagName("StringData")[0];
+  if (stringDataEl) {
+    stringTuning = directChildren(stringDataEl, "string")
+      .map(s => parseInt(s.textContent ?? ""))
+      .filter(p => !isNaN(p));
+  }
+
+  // Drum kit: <useDrumset>1</useDrumset> plus one <Drum pitch="N"> per kit piece
+  let drumset: Map<number, MscxDrum> | undefined;
+  if (childText(el, "useDrumset") === "1") {
+    drumset = new Map();
+    for (const drumEl of directChildren(el, "Drum")) {
+      const pitch = parseInt(drumEl.getAttribute("pitch") ?? "");
+      if (isNaN(pitch)) continue;
+      drumset.set(pitch, {
+        name: childText(drumEl, "name"),
+        headType: childText(drumEl, "head") || "normal",
+        line: parseInt(childText(drumEl, "line")) || 0,
+        stem: parseInt(childText(drumEl, "stem")) || 0,
+      });
+    }
+  }
+
+  return { longName, shortName, transposeDiatonic, transposeChromatic, clefs, stringTuning, drumset };
 }
 
-function parseStaffData(scoreEl: Element, isV3: boolean): Map<string, MscxMeasure[]> {
+function parseStaffData(scoreEl: Element, isV3: boolean, parts: MscxPart[]): Map<string, MscxMeasure[]> {
   const staffData = new Map<string, MscxMeasure[]>();
 
+  // Drum kits by staff ID, so percussion notes can resolve their noteheads and lines
+  const drumsetByStaff = new Map<string, Map<number, MscxDrum>>();
+  for (const part of parts) {
+    if (!part.instrument.drumset) continue;
+    for (const staffId of part.staffIds) {
+      drumsetByStaff.set(staffId, part.instrument.drumset);
+    }
+  }
+
   // Top-level <Staff id="N"> elements that contain <Measure> children
   const allStaffs = directChildren(scoreEl, "Staff");
   for (const staffEl of allStaffs) {
@@ -182,14 +371,46 @@ function parseStaffData(scoreEl: Element, isV3: boolean): Map<string, MscxMeasur
     const measureEls = directChildren(staffEl, "Measure");
     if (measureEls.length === 0) continue;
 
+    parseDrumset = drumsetByStaff.get(id);
+    staffSpanners = new Map();
+    useVoiceSpanners(0);
+    openGlissandi = [];
+    pendingTremoloStop = null;
+
     const measures: MscxMeasure[] = [];
+    // Voltas whose end marker has not been seen yet
+    const openVoltas: { id: string | null; volta: MscxVolta; startIndex: number }[] = [];
     for (let m = 0; m < measureEls.length; m++) {
       const measure = parseMeasure(measureEls[m], m + 1, isV3);
+
+      const markers = findVoltaMarkers(measureEls[m], isV3);
+      for (const start of markers.starts) {
+        measure.volta = start.volta;
+        if (start.volta.measureCount === 0) {
+          openVoltas.push({ id: start.id, volta: start.volta, startIndex: m });
+        }
+      }
+      for (const end of markers.ends) {
+        // v2 matches by spanner ID, v3 spanners have no IDs: close the oldest open volta
+        const idx = end.id !== null ? openVoltas.findIndex(o => o.id === end.id) : 0;
+        if (idx < 0 || idx >= openVoltas.length) continue;
+        const open = openVoltas.splice(idx, 1)[0];
+        // An end marker before any note belongs to the end of the previous measure
+        const lastIndex = end.atMeasureStart ? m - 1 : m;
+        open.volta.measureCount = Math.max(1, lastIndex - open.startIndex + 1);
+      }
+
       measures.push(measure);
     }
+    // Unterminated voltas run to the last measure
+    for (const open of openVoltas) {
+      open.volta.measureCount = measures.length - open.startIndex;
+    }
+    applyOttavaShifts(measures);
 
     staffData.set(id, measures);
   }
+  parseDrumset = undefined;
 
   return staffData;
 }
@@ -198,13 +419,16 @@ function parseMeasure(measureEl: Element, defaultNumber: number, isV3: boolean):
   const numAttr = measureEl.getAttribute("number");
   const number = numAttr ? parseInt(numAttr) : defaultNumber;
 
-  let keySig: number | undefined;
-  let timeSig: { beats: number; beatType: number } | undefined;
+  let keySig: MscxKeySig | undefined;
+  let timeSig: MscxTimeSig | undefined;
   let clef: string | undefined;
   let voices: MscxVoice[];
+  let barlines: MscxBarline[];
 
   if (isV3) {
-    voices = parseV3Voices(measureEl);
+    const parsed = parseV3Voices(measureEl);
+    voices = parsed.voices;
+    barlines = parsed.barlines;
     keySig = findKeySigInMeasure(measureEl);
     timeSig = findTimeSigInMeasure(measureEl);
     clef = findClefInMeasure(measureEl);
@@ -214,6 +438,7 @@ function parseMeasure(measureEl: Element, defaultNumber: number, isV3: boolean):
     keySig = parsed.keySig;
     timeSig = parsed.timeSig;
     clef = parsed.clef;
+    barlines = parsed.barlines;
   }
 
   // Barline properties
@@ -221,13 +446,8 @@ function parseMeasure(measureEl: Element, defaultNumber: number, isV3: boolean):
   const endRepeatEl = directChildren(measureEl, "endRepeat")[0];
   const endRepeat = endRepeatEl ? (parseInt(endRepeatEl.textContent ?? "2") || 2) : undefined;
 
-  // End barline type from <BarLine><subtype> inside the measure (v3: inside voice)
-  let endBarline: string | undefined;
-  const barLineEls = measureEl.getElementsByTagName("BarLine");
-  for (let i = 0; i < barLineEls.length; i++) {
-    const sub = childText(barLineEls[i], "subtype");
-    if (sub) endBarline = sub;
-  }
+  // The last barline at the measure end wins
+  const endBarline = barlines.pop();
 
   // Tempo
   let tempo: MscxTempo | undefined;
@@ -236,12 +456,162 @@ function parseMeasure(measureEl: Element, defaultNumber: number, isV3: boolean):
     tempo = parseTempo(tempoEls[0]);
   }
 
-  return { number, keySig, timeSig, clef, voices, startRepeat, endRepeat, endBarline, tempo };
+  // Navigation markers and jumps
+  const markers: MscxMarker[] = [];
+  const markerEls = measureEl.getElementsByTagName("Marker");
+  for (let i = 0; i < markerEls.length; i++) {
+    markers.push(parseMarker(markerEls[i]));
+  }
+  const jumps: MscxJump[] = [];
+  const jumpEls = measureEl.getElementsByTagName("Jump");
+  for (let i = 0; i < jumpEls.length; i++) {
+    jumps.push(parseJump(jumpEls[i]));
+  }
+
+  // Instrument change (doubling players) and its cue text
+  let instrumentChange: MscxMeasure["instrumentChange"];
+  const changeEl = measureEl.getElementsByTagName("InstrumentChange")[0];
+  if (changeEl) {
+    instrumentChange = {
+      instrument: parseInstrument(directChildren(changeEl, "Instrument")[0]),
+      text: childText(changeEl, "text").replace(/<[^>]+>/g, "").trim(),
+    };
+  }
+
+  // Rehearsal mark (formatting tags stripped)
+  const rehearsalEl = measureEl.getElementsByTagName("RehearsalMark")[0];
+  const rehearsalMark = rehearsalEl ? childText(rehearsalEl, "text").replace(/<[^>]+>/g, "").trim() || undefined : undefined;
+
+  // Actual length of pickups and irregular bars (<Measure len="1/4">, fraction of a whole note)
+  let len: number | undefined;
+  const lenParts = (measureEl.getAttribute("len") ?? "").split("/");
+  if (lenParts.length === 2) {
+    const num = parseInt(lenParts[0]);
+    const den = parseInt(lenParts[1]);
+    if (num > 0 && den > 0) len = Math.round((num / den) * 4 * parseDivision);
+  }
+
+  // Measure numbering: "exclude from measure count" and "add to measure number"
+  const irregularEl = directChildren(measureEl, "irregular")[0];
+  const irregular = irregularEl ? irregularEl.textContent?.trim() !== "0" : undefined;
+  const noOffsetEl = directChildren(measureEl, "noOffset")[0];
+  const noOffset = noOffsetEl ? parseInt(noOffsetEl.textContent ?? "") || undefined : undefined;
+
+  // Measure-repeat group: MuseScore 4 marks every measure of the group with
+  // <measureRepeatCount> and puts the sign in one of them; MuseScore 3 only
+  // has the one-bar <RepeatMeasure>
+  let measureRepeat: number | undefined;
+  const repeatCount = parseInt(childText(measureEl, "measureRepeatCount"));
+  if (repeatCount > 0) {
+    measureRepeat = repeatCount;
+  } else {
+    const repeatEl = measureEl.getElementsByTagName("RepeatMeasure")[0];
+    if (repeatEl) measureRepeat = 1;
+  }
+
+  // System, page and section breaks after this measure (the strongest wins)
+  let layoutBreak: MscxMeasure["layoutBreak"];
+  for (const breakEl of directChildren(measureEl, "LayoutBreak")) {
+    const sub = childText(breakEl, "subtype");
+    if (sub === "page" || (sub === "section" && layoutBreak !== "page") || (sub === "line" && !layoutBreak)) {
+      layoutBreak = sub;
+    }
+  }
+
+  return {
+    number, len, irregular, noOffset,
+    keySig, timeSig, clef, voices, startRepeat, endRepeat, endBarline, tempo,
+    markers: markers.length > 0 ? markers : undefined,
+    jumps: jumps.length > 0 ? jumps : undefined,
+    measureRepeat,
+    instrumentChange,
+    rehearsalMark,
+    layoutBreak,
+  };
+}
+
+/** Whether an element is a measure-repeat sign (<MeasureRepeat> in v4, <RepeatMeasure> in v3) */
+function isMeasureRepeat(el: Element): boolean {
+  return el.tagName === "MeasureRepeat" || el.tagName === "RepeatMeasure";
+}
+
+/** Volta start/end markers found in a single measure, resolved across measures by parseStaffData. */
+interface VoltaMarkers {
+  /** Volta starts; id is the v2 spanner ID (null in v3) */
+  starts: { id: string | null; volta: MscxVolta }[];
+  /** Volta ends; atMeasureStart is true when the marker precedes all chords/rests */
+  ends: { id: string | null; atMeasureStart: boolean }[];
+}
+
+/**
+ * Find volta markers in a measure.
+ * v2: <Volta id="N"> starts, <endSpanner id="N"/> ends (both direct children of Measure)
+ * v3: <Spanner type="Volta"> inside <voice>, with <next> (start) or <prev> (end)
+ */
+function findVoltaMarkers(measureEl: Element, isV3: boolean): VoltaMarkers {
+  const markers: VoltaMarkers = { starts: [], ends: [] };
+
+  if (isV3) {
+    for (const voiceEl of directChildren(measureEl, "voice")) {
+      let seenContent = false;
+      for (let i = 0; i < voiceEl.children.length; i++) {
+        const child = voiceEl.children[i];
+        if (child.tagName === "Chord" || child.tagName === "Rest" || isMeasureRepeat(child)) seenContent = true;
+        if (child.tagName !== "Spanner" || child.getAttribute("type") !== "Volta") continue;
+        const voltaEl = directChildren(child, "Volta")[0];
+        const nextEl = directChildren(child, "next")[0];
+        if (voltaEl && nextEl) {
+          markers.starts.push({ id: null, volta: parseVolta(voltaEl, nextEl) });
+        } else if (directChildren(child, "prev").length > 0) {
+          markers.ends.push({ id: null, atMeasureStart: !seenContent });
+        }
+      }
+    }
+  } else {
+    let seenContent = false;
+    for (let i = 0; i < measureEl.children.length; i++) {
+      const child = measureEl.children[i];
+      if (child.tagName === "Chord" || child.tagName === "Rest" || isMeasureRepeat(child)) seenContent = true;
+      if (child.tagName === "Volta") {
+        markers.starts.push({ id: child.getAttribute("id"), volta: parseVolta(child) });
+      } else if (child.tagName === "endSpanner") {
+        markers.ends.push({ id: child.getAttribute("id"), atMeasureStart: !seenContent });
+      }
+    }
+  }
+
+  return markers;
+}
+
+/**
+ * Parse a <Volta> element. The span is taken from the v3 <next><location> when
+ * present; otherwise measureCount is 0 and gets resolved from the end marker.
+ */
+function parseVolta(voltaEl: Element, nextEl?: Element): MscxVolta {
+  const text = childText(voltaEl, "beginText").replace(/<[^>]+>/g, "").trim();
+  const endingNums = (childText(voltaEl, "endings") || text).match(/\d+/g);
+  const endings = endingNums ? endingNums.map(n => parseInt(n)) : [1];
+  const closed = childText(voltaEl, "endHookType") === "1";
+
+  let measureCount = 0;
+  if (nextEl) {
+    measureCount = parseInt(childText(nextEl, "measures")) || 0;
+    // A volta ending mid-measure still covers that measure
+    const fractions = childText(nextEl, "fractions");
+    if (fractions && parseInt(fractions.split("/")[0]) > 0) measureCount++;
+  }
+
+  return { endings, text: text || `${endings.join(", ")}.`, closed, measureCount };
 }
 
-/** Parse v3 measure: voices are explicit <voice> children. */
-function parseV3Voices(measureEl: Element): MscxVoice[] {
+/**
+ * Parse v3 measure: voices are explicit <voice> children. Barlines are
+ * written in the voice: those followed by a note or rest stand before it,
+ * the others are returned as end barlines.
+ */
+function parseV3Voices(measureEl: Element): { voices: MscxVoice[]; barlines: MscxBarline[] } {
   const voices: MscxVoice[] = [];
+  const barlines: MscxBarline[] = [];
   const voiceEls = directChildren(measureEl, "voice");
 
   for (const voiceEl of voiceEls) {
@@ -263,24 +633,61 @@ function parseV3Voices(measureEl: Element): MscxVoice[] {
       }
     }
 
+    useVoiceSpanners(voiceEls.indexOf(voiceEl));
     const elements = parseVoiceElements(voiceEl);
     if (elements.length > 0 || startOffset) {
       voices.push({ elements, startOffset });
     }
+
+    let index = 0;
+    for (let i = 0; i < voiceEl.children.length; i++) {
+      const child = voiceEl.children[i];
+      if (child.tagName === "Chord" || child.tagName === "Rest" || isMeasureRepeat(child)) {
+        index++;
+      } else if (child.tagName === "BarLine") {
+        const barline = parseBarline(child);
+        if (!barline) continue;
+        if (index < elements.length) elements[index].barline = barline;
+        else barlines.push(barline);
+      }
+    }
   }
 
-  return voices;
+  return { voices, barlines };
+}
+
+/** MuseScore barline subtypes (v2 and v3+ names) */
+const BARLINE_TYPES: Record<string, MscxBarlineType> = {
+  "normal": "normal", "double": "double", "end": "end", "final": "end",
+  "reverse-end": "reverse-end", "heavy": "heavy", "double-heavy": "double-heavy",
+  "dashed": "dashed", "dotted": "dotted", "start-repeat": "start-repeat",
+  "end-repeat": "end-repeat", "end-start-repeat": "end-start-repeat",
+};
+
+/**
+ * Parse a <BarLine>. Tick and short barlines are spans rather than subtypes:
+ * spanFrom above the top line draws a tick, below it a short barline.
+ */
+function parseBarline(el: Element): MscxBarline | undefined {
+  const type = BARLINE_TYPES[childText(el, "subtype") || "normal"];
+  if (!type) return undefined;
+  const barline: MscxBarline = { type };
+  const spanFrom = parseInt(childText(el, "spanFrom"));
+  if (spanFrom < 0) barline.span = "tick";
+  else if (spanFrom > 0) barline.span = "short";
+  return barline;
 }
 
 /** Parse v2 measure: no voice wrappers. Use <tick> resets to detect voice changes. */
 function parseV2Measure(measureEl: Element): {
   voices: MscxVoice[];
-  keySig?: number;
-  timeSig?: { beats: number; beatType: number };
+  keySig?: MscxKeySig;
+  timeSig?: MscxTimeSig;
   clef?: string;
+  barlines: MscxBarline[];
 } {
-  let keySig: number | undefined;
-  let timeSig: { beats: number; beatType: number } | undefined;
+  let keySig: MscxKeySig | undefined;
+  let timeSig: MscxTimeSig | undefined;
   let clef: string | undefined;
 
   const voiceMap = new Map<number, MscxElement[]>();
@@ -291,24 +698,51 @@ function parseV2Measure(measureEl: Element): {
   let pendingDynamic: { subtype: string; velocity?: number } | null = null;
   let pendingHairpinStarts: { number: number; subtype: number }[] = [];
   let pendingExpressionText: string | null = null;
-  // Tuplet tracking
-  let tupletActual = 0;
-  let tupletNormal = 0;
-  let tupletCount = 0;
+  let pendingHarmony: MscxHarmony | null = null;
+  let pendingOttavaStart: MscxOttava | null = null;
+  let pendingPedalStart: MscxPedal | null = null;
+  let pendingWavyLineStart: MscxWavyLine | null = null;
+  // A barline stands before the next note or rest of its voice; one left over
+  // when the voice changes or the measure ends is an end barline
+  let pendingBarline: { barline: MscxBarline; voice: number } | null = null;
+  const barlines: MscxBarline[] = [];
+  const takeBarline = (): MscxBarline | undefined => {
+    const pending = pendingBarline;
+    pendingBarline = null;
+    if (pending?.voice === currentVoice) return pending.barline;
+    if (pending) barlines.push(pending.barline);
+    return undefined;
+  };
+  // Tuplets: v2 defines each <Tuplet id="N"> once and members (and nested
+  // tuplets) refer to it with <Tuplet>N</Tuplet>; later files bracket members
+  // between <Tuplet> and <endTuplet/>
+  const tupletsById = new Map<string, { tuplet: MscxTuplet; parentId: string | null }>();
+  // Stem directions of the measure's <Beam id="N"> elements
+  const beamDirections = new Map<string, "up" | "down">();
+  const tupletStack: MscxTuplet[] = [];
+  const memberStack = (el: Element): MscxTuplet[] => {
+    let ref: string | null = directChildren(el, "Tuplet")[0]?.textContent?.trim() ?? null;
+    if (ref === null) return tupletStack;
+    const stack: MscxTuplet[] = [];
+    while (ref !== null && tupletsById.has(ref)) {
+      const def: { tuplet: MscxTuplet; parentId: string | null } = tupletsById.get(ref)!;
+      stack.unshift(def.tuplet);
+      ref = def.parentId;
+    }
+    return stack;
+  };
 
   for (let i = 0; i < measureEl.children.length; i++) {
     const child = measureEl.children[i];
+    useVoiceSpanners(currentVoice);
 
     switch (child.tagName) {
       case "KeySig": {
-        const acc = childText(child, "accidental");
-        if (acc) keySig = parseInt(acc);
+        keySig = parseKeySig(child) ?? keySig;
         break;
       }
       case "TimeSig": {
-        const beats = parseInt(childText(child, "sigN"));
-        const beatType = parseInt(childText(child, "sigD"));
-        if (beats && beatType) timeSig = { beats, beatType };
+        timeSig = parseTimeSig(child) ?? timeSig;
         break;
       }
       case "Clef": {
@@ -319,41 +753,47 @@ function parseV2Measure(measureEl: Element): {
         currentVoice++;
         break;
       }
+      case "BarLine": {
+        const barline = parseBarline(child);
+        if (barline) {
+          takeBarline();
+          pendingBarline = { barline, voice: currentVoice };
+        }
+        break;
+      }
       case "Tuplet": {
-        tupletActual = parseInt(childText(child, "actualNotes")) || 3;
-        tupletNormal = parseInt(childText(child, "normalNotes")) || 2;
-        tupletCount = 0;
+        const id = child.getAttribute("id");
+        if (id !== null) {
+          const parentId = directChildren(child, "Tuplet")[0]?.textContent?.trim() ?? null;
+          tupletsById.set(id, { tuplet: parseTuplet(child, id), parentId });
+        } else {
+          tupletStack.push(parseTuplet(child, `t${tupletCounter++}`));
+        }
         break;
       }
       case "endTuplet": {
-        // Mark the last element in current voice as tuplet stop
-        const voiceElems = voiceMap.get(currentVoice);
-        if (voiceElems && voiceElems.length > 0) {
-          const last = voiceElems[voiceElems.length - 1];
-          if (last.tuplet) last.tuplet.isStop = true;
-        }
-        tupletActual = 0;
-        tupletNormal = 0;
-        tupletCount = 0;
+        tupletStack.pop();
+        break;
+      }
+      case "Beam": {
+        // v2 <Beam id="N"> holds the beam's properties; chords refer to it by id
+        const id = child.getAttribute("id");
+        const dir = parseStemDirection(child);
+        if (id !== null && dir) beamDirections.set(id, dir);
         break;
       }
       case "Chord": {
         const track = child.getAttribute("track") ?? childText(child, "track");
         if (track) {
           currentVoice = parseInt(track) % 4;
+          useVoiceSpanners(currentVoice);
         }
         if (!voiceMap.has(currentVoice)) voiceMap.set(currentVoice, []);
         const chord = parseChord(child);
-        // Attach tuplet info
-        if (tupletActual > 0) {
-          chord.tuplet = {
-            actualNotes: tupletActual,
-            normalNotes: tupletNormal,
-            isStart: tupletCount === 0,
-            isStop: false,
-          };
-          tupletCount++;
-        }
+        chord.barline = takeBarline();
+        // Attach tuplet membership (grace notes don't count towards tuplets)
+        if (!chord.graceType) chord.tuplet = tupletMembership(memberStack(child));
+        if (chord.beamId) chord.beamDirection = beamDirections.get(chord.beamId);
         // Attach pending dynamic
         if (pendingDynamic) {
           chord.dynamic = pendingDynamic;
@@ -369,27 +809,50 @@ function parseV2Measure(measureEl: Element): {
           chord.expressionText = pendingExpressionText;
           pendingExpressionText = null;
         }
+        // Attach pending chord symbol
+        if (pendingHarmony) {
+          chord.harmony = pendingHarmony;
+          pendingHarmony = null;
+        }
+        // Ottava start (the pitch displacement is applied per staff by applyOttavaShifts)
+        if (pendingOttavaStart) {
+          chord.ottavaStart = pendingOttavaStart;
+          pendingOttavaStart = null;
+        }
+        // Attach pending pedal start/change
+        if (pendingPedalStart) {
+          chord.pedalStart = pendingPedalStart;
+          pendingPedalStart = null;
+        }
+        spanners.lastPedalStop = null;
+        // Attach pending trill/vibrato line start
+        if (pendingWavyLineStart) {
+          chord.wavyLineStart = pendingWavyLineStart;
+          pendingWavyLineStart = null;
+        }
         voiceMap.get(currentVoice)!.push(chord);
         lastChordByVoice.set(currentVoice, chord);
+        spanners.lastChord = chord;
         break;
       }
+      case "RepeatMeasure": // one-bar repeat sign, filling its measure like a full-measure rest
       case "Rest": {
         const track = child.getAttribute("track") ?? childText(child, "track");
         if (track) {
           currentVoice = parseInt(track) % 4;
+          useVoiceSpanners(currentVoice);
         }
         if (!voiceMap.has(currentVoice)) voiceMap.set(currentVoice, []);
         const rest = parseRest(child);
-        // Attach tuplet info to rests too
-        if (tupletActual > 0) {
-          rest.tuplet = {
-            actualNotes: tupletActual,
-            normalNotes: tupletNormal,
-            isStart: tupletCount === 0,
-            isStop: false,
-          };
-          tupletCount++;
+        rest.barline = takeBarline();
+        // Rests can be tuplet members too
+        rest.tuplet = tupletMembership(memberStack(child));
+        // Attach pending chord symbol (chord symbols can sit over rests)
+        if (pendingHarmony) {
+          rest.harmony = pendingHarmony;
+          pendingHarmony = null;
         }
+        spanners.lastPedalStop = null;
         voiceMap.get(currentVoice)!.push(rest);
         break;
       }
@@ -431,7 +894,65 @@ function parseV2Measure(measureEl: Element): {
         if (text) pendingExpressionText = text;
         break;
       }
+      case "Harmony": {
+        pendingHarmony = parseHarmony(child);
+        break;
+      }
+      case "Ottava": {
+        // v2: <Ottava id="N"> ... later <endSpanner id="N"/>
+        pendingOttavaStart = startOttava(child);
+        spanners.ottavaId = child.getAttribute("id");
+        break;
+      }
+      case "Pedal": {
+        // v2: <Pedal id="N"> ... later <endSpanner id="N"/>
+        pendingPedalStart = startPedal(child);
+        spanners.pedalId = child.getAttribute("id");
+        break;
+      }
+      case "Trill": {
+        // v2: <Trill id="N"> ... later <endSpanner id="N"/>
+        pendingWavyLineStart = startWavyLine(child);
+        spanners.wavyLineId = child.getAttribute("id");
+        break;
+      }
+      case "endSpanner": {
+        // The line ends in the voice that started it
+        const spannerId = child.getAttribute("id");
+        if (spannerId === null) break;
+        for (const [voice, state] of staffSpanners) {
+          spanners = state;
+          const lastChord = lastChordByVoice.get(voice) ?? null;
+          if (state.wavyLine && state.wavyLineId === spannerId) stopWavyLine(lastChord);
+          if (state.ottava && state.ottavaId === spannerId) stopOttava(lastChord);
+          if (state.pedal && state.pedalId === spannerId) stopPedal(lastChord);
+        }
+        useVoiceSpanners(currentVoice);
+        break;
+      }
       case "Spanner": {
+        const spannerType = child.getAttribute("type");
+        if (spannerType === "Trill" || spannerType === "Vibrato") {
+          if (directChildren(child, "next").length > 0) {
+            pendingWavyLineStart = startWavyLine(directChildren(child, spannerType)[0]);
+          } else if (directChildren(child, "prev").length > 0) {
+            stopWavyLine(lastChordByVoice.get(currentVoice) ?? null);
+          }
+        }
+        if (child.getAttribute("type") === "Pedal") {
+          if (directChildren(child, "next").length > 0) {
+            pendingPedalStart = startPedal(directChildren(child, "Pedal")[0]);
+          } else if (directChildren(child, "prev").length > 0) {
+            stopPedal(lastChordByVoice.get(currentVoice) ?? null);
+          }
+        }
+        if (child.getAttribute("type") === "Ottava") {
+          if (directChildren(child, "next").length > 0) {
+            pendingOttavaStart = startOttava(directChildren(child, "Ottava")[0]);
+          } else if (directChildren(child, "prev").length > 0) {
+            stopOttava(lastChordByVoice.get(currentVoice) ?? null);
+          }
+        }
         if (child.getAttribute("type") === "HairPin") {
           const hairpinEl = directChildren(child, "HairPin")[0];
           const hasNext = directChildren(child, "next").length > 0;
@@ -459,11 +980,13 @@ function parseV2Measure(measureEl: Element): {
   for (const key of sortedKeys) {
     const elements = voiceMap.get(key)!;
     if (elements.length > 0) {
+      markTupletBoundaries(elements);
       voices.push({ elements });
     }
   }
+  if (pendingBarline) barlines.push(pendingBarline.barline);
 
-  return { voices, keySig, timeSig, clef };
+  return { voices, keySig, timeSig, clef, barlines };
 }
 
 /**
@@ -478,37 +1001,31 @@ function parseVoiceElements(container: Element): MscxElement[] {
   let pendingDynamic: { subtype: string; velocity?: number } | null = null;
   let pendingHairpinStarts: { number: number; subtype: number }[] = [];
   let pendingExpressionText: string | null = null;
-  // Tuplet tracking
-  let tupletActual = 0;
-  let tupletNormal = 0;
-  let tupletCount = 0; // how many elements parsed so far in this tuplet
+  let pendingHarmony: MscxHarmony | null = null;
+  let pendingOttavaStart: MscxOttava | null = null;
+  let pendingPedalStart: MscxPedal | null = null;
+  let pendingWavyLineStart: MscxWavyLine | null = null;
+  // Stem direction of a <Beam> written before the chord that starts it
+  let pendingBeamDirection: "up" | "down" | undefined;
+  // Open tuplets, outermost first (nested tuplets push onto the stack)
+  const tupletStack: MscxTuplet[] = [];
 
   for (let i = 0; i < container.children.length; i++) {
     const child = container.children[i];
     if (child.tagName === "Tuplet") {
-      tupletActual = parseInt(childText(child, "actualNotes")) || 3;
-      tupletNormal = parseInt(childText(child, "normalNotes")) || 2;
-      tupletCount = 0;
+      tupletStack.push(parseTuplet(child, `t${tupletCounter++}`));
     } else if (child.tagName === "endTuplet") {
-      // Mark the last element as tuplet stop
-      if (elements.length > 0) {
-        const last = elements[elements.length - 1];
-        if (last.tuplet) last.tuplet.isStop = true;
-      }
-      tupletActual = 0;
-      tupletNormal = 0;
-      tupletCount = 0;
+      tupletStack.pop();
+    } else if (child.tagName === "Beam") {
+      pendingBeamDirection = parseStemDirection(child);
     } else if (child.tagName === "Chord") {
       const chord = parseChord(child);
-      // Attach tuplet info
-      if (tupletActual > 0) {
-        chord.tuplet = {
-          actualNotes: tupletActual,
-          normalNotes: tupletNormal,
-          isStart: tupletCount === 0,
-          isStop: false,
-        };
-        tupletCount++;
+      // Attach tuplet membership (grace notes don't count towards tuplets)
+      if (!chord.graceType) chord.tuplet = tupletMembership(tupletStack);
+      // Attach the direction of the beam this chord starts
+      if (pendingBeamDirection) {
+        chord.beamDirection = pendingBeamDirection;
+        pendingBeamDirection = undefined;
       }
       // Attach pending dynamic
       if (pendingDynamic) {
@@ -525,20 +1042,41 @@ function parseVoiceElements(container: Element): MscxElement[] {
         chord.expressionText = pendingExpressionText;
         pendingExpressionText = null;
       }
+      // Attach pending chord symbol
+      if (pendingHarmony) {
+        chord.harmony = pendingHarmony;
+        pendingHarmony = null;
+      }
+      // Ottava start (the pitch displacement is applied per staff by applyOttavaShifts)
+      if (pendingOttavaStart) {
+        chord.ottavaStart = pendingOttavaStart;
+        pendingOttavaStart = null;
+      }
+      // Attach pending pedal start/change
+      if (pendingPedalStart) {
+        chord.pedalStart = pendingPedalStart;
+        pendingPedalStart = null;
+      }
+      spanners.lastPedalStop = null;
+      // Attach pending trill/vibrato line start
+      if (pendingWavyLineStart) {
+        chord.wavyLineStart = pendingWavyLineStart;
+        pendingWavyLineStart = null;
+      }
       elements.push(chord);
       lastChord = chord;
-    } else if (child.tagName === "Rest") {
+      spanners.lastChord = chord;
+    } else if (child.tagName === "Rest" || isMeasureRepeat(child)) {
+      // Measure-repeat signs fill their measure like a full-measure rest
       const rest = parseRest(child);
-      // Attach tuplet info to rests too
-      if (tupletActual > 0) {
-        rest.tuplet = {
-          actualNotes: tupletActual,
-          normalNotes: tupletNormal,
-          isStart: tupletCount === 0,
-          isStop: false,
-        };
-        tupletCount++;
+      // Rests can be tuplet members too
+      rest.tuplet = tupletMembership(tupletStack);
+      // Attach pending chord symbol (chord symbols can sit over rests)
+      if (pendingHarmony) {
+        rest.harmony = pendingHarmony;
+        pendingHarmony = null;
       }
+      spanners.lastPedalStop = null;
       elements.push(rest);
       lastChord = null;
     } else if (child.tagName === "Lyrics") {
@@ -585,12 +1123,321 @@ function parseVoiceElements(container: Element): MscxElement[] {
     } else if (child.tagName === "StaffText") {
       const text = childText(child, "text");
       if (text) pendingExpressionText = text;
+    } else if (child.tagName === "Harmony") {
+      pendingHarmony = parseHarmony(child);
+    } else if (child.tagName === "Spanner" && child.getAttribute("type") === "Ottava") {
+      if (directChildren(child, "next").length > 0) {
+        pendingOttavaStart = startOttava(directChildren(child, "Ottava")[0]);
+      } else if (directChildren(child, "prev").length > 0) {
+        stopOttava(lastChord);
+      }
+    } else if (child.tagName === "Spanner" && child.getAttribute("type") === "Pedal") {
+      if (directChildren(child, "next").length > 0) {
+        pendingPedalStart = startPedal(directChildren(child, "Pedal")[0]);
+      } else if (directChildren(child, "prev").length > 0) {
+        stopPedal(lastChord);
+      }
+    } else if (child.tagName === "Spanner" &&
+               (child.getAttribute("type") === "Trill" || child.getAttribute("type") === "Vibrato")) {
+      if (directChildren(child, "next").length > 0) {
+        pendingWavyLineStart = startWavyLine(directChildren(child, child.getAttribute("type")!)[0]);
+      } else if (directChildren(child, "prev").length > 0) {
+        stopWavyLine(lastChord);
+      }
     }
   }
 
+  markTupletBoundaries(elements);
   return elements;
 }
 
+/** MuseScore tuplet number types (ints in v2/v3, names in v4) */
+const TUPLET_NUMBER_TYPES: Record<string, MscxTuplet["numberDisplay"]> = {
+  "0": "number", "1": "ratio", "2": "none",
+  "SHOW_NUMBER": "number", "SHOW_RELATION": "ratio", "NO_TEXT": "none",
+};
+/** MuseScore tuplet bracket types */
+const TUPLET_BRACKET_TYPES: Record<string, MscxTuplet["bracket"]> = {
+  "0": "auto", "1": "show", "2": "hide",
+  "AUTO_BRACKET": "auto", "SHOW_BRACKET": "show", "SHOW_NO_BRACKET": "hide",
+};
+
+/** Parse a <Tuplet> definition. */
+function parseTuplet(tupletEl: Element, id: string): MscxTuplet {
+  return {
+    id,
+    actualNotes: parseInt(childText(tupletEl, "actualNotes")) || 3,
+    normalNotes: parseInt(childText(tupletEl, "normalNotes")) || 2,
+    baseNote: childText(tupletEl, "baseNote") || undefined,
+    numberDisplay: TUPLET_NUMBER_TYPES[childText(tupletEl, "numberType")] ?? "number",
+    bracket: TUPLET_BRACKET_TYPES[childText(tupletEl, "bracketType")] ?? "auto",
+  };
+}
+
+/** Tuplet info for an element inside the given tuplets (boundaries are set by markTupletBoundaries). */
+function tupletMembership(stack: MscxTuplet[]): MscxTupletInfo | undefined {
+  if (stack.length === 0) return undefined;
+  let actualNotes = 1;
+  let normalNotes = 1;
+  for (const tuplet of stack) {
+    actualNotes *= tuplet.actualNotes;
+    normalNotes *= tuplet.normalNotes;
+  }
+  return {
+    actualNotes, normalNotes, isStart: false, isStop: false,
+    stack: [...stack], startLevels: [], stopLevels: [],
+  };
+}
+
+/**
+ * Mark where each tuplet of a voice starts and stops: on its first and last
+ * member. Tuplets never cross a barline, so one measure's voice is enough.
+ */
+function markTupletBoundaries(elements: MscxElement[]): void {
+  const first = new Map<MscxTuplet, number>();
+  const last = new Map<MscxTuplet, number>();
+  elements.forEach((elem, i) => {
+    for (const tuplet of elem.tuplet?.stack ?? []) {
+      if (!first.has(tuplet)) first.set(tuplet, i);
+      last.set(tuplet, i);
+    }
+  });
+
+  elements.forEach((elem, i) => {
+    const info = elem.tuplet;
+    if (!info) return;
+    info.stack.forEach((tuplet, level) => {
+      if (first.get(tuplet) === i) info.startLevels.push(level);
+      if (last.get(tuplet) === i) info.stopLevels.unshift(level);
+    });
+    info.isStart = info.startLevels.length > 0;
+    info.isStop = info.stopLevels.length > 0;
+  });
+}
+
+/** Open spanner lines of one voice of the staff being parsed. */
+interface VoiceSpanners {
+  ottava: MscxOttava | null;
+  ottavaId: string | null;          // v2 spanner ID
+  // Style of the active pedal (the end marker carries no properties)
+  pedal: { line: boolean; endSign: boolean; endAngled: boolean } | null;
+  pedalId: string | null;
+  // Release last attached to a chord, which a pedal starting at the same
+  // position turns into a pedal change
+  lastPedalStop: { chord: MscxChord; angled: boolean } | null;
+  wavyLine: MscxWavyLine | null;
+  wavyLineId: string | null;
+  // Most recent chord, which receives the stop when a line ends at a barline
+  lastChord: MscxChord | null;
+}
+
+/** Make the given voice's spanner lines the current ones, opening its state on first use. */
+function useVoiceSpanners(voice: number): void {
+  let state = staffSpanners.get(voice);
+  if (!state) {
+    state = {
+      ottava: null, ottavaId: null, pedal: null, pedalId: null, lastPedalStop: null,
+      wavyLine: null, wavyLineId: null, lastChord: null,
+    };
+    staffSpanners.set(voice, state);
+  }
+  spanners = state;
+}
+
+/**
+ * Parse a <Pedal> element and make it the active pedal of the current voice.
+ * Hook type 2 is the angled (45°) hook MuseScore uses for pedal changes: a pedal
+ * starting right where the previous one was released becomes a "change".
+ */
+function startPedal(pedalEl: Element | undefined): MscxPedal {
+  const line = !pedalEl || childText(pedalEl, "lineVisible") !== "0";
+  // An absent <beginText> means the default "Ped." sign; an empty one hides it
+  const beginTextEl = pedalEl?.getElementsByTagName("beginText")[0];
+  const sign = !beginTextEl || !!beginTextEl.textContent?.trim();
+  const beginAngled = !!pedalEl && childText(pedalEl, "beginHookType") === "2";
+  spanners.pedal = {
+    line,
+    endSign: !!pedalEl && !!childText(pedalEl, "endText"),
+    endAngled: !!pedalEl && childText(pedalEl, "endHookType") === "2",
+  };
+
+  if (spanners.lastPedalStop && (beginAngled || spanners.lastPedalStop.angled)) {
+    spanners.lastPedalStop.chord.pedalStop = undefined;
+    spanners.lastPedalStop = null;
+    return { type: "change", line, sign };
+  }
+  return { type: "start", line, sign };
+}
+
+/** Release the active pedal after the given chord (or the voice's most recent chord). */
+function stopPedal(lastChord: MscxChord | null): void {
+  const target = lastChord ?? spanners.lastChord;
+  if (spanners.pedal && target) {
+    target.pedalStop = { type: "stop", line: spanners.pedal.line, sign: spanners.pedal.endSign };
+    spanners.lastPedalStop = { chord: target, angled: spanners.pedal.endAngled };
+  }
+  spanners.pedal = null;
+  spanners.pedalId = null;
+}
+
+/** Ottava subtypes (v3 names, v2 numbers) → normalized type and octave displacement. */
+const OTTAVA_TYPES: Record<string, { type: string; octaves: number }> = {
+  "8va":  { type: "8va", octaves: 1 },
+  "8vb":  { type: "8vb", octaves: -1 },
+  "15ma": { type: "15ma", octaves: 2 },
+  "15mb": { type: "15mb", octaves: -2 },
+  "22ma": { type: "22ma", octaves: 3 },
+  "22mb": { type: "22mb", octaves: -3 },
+  "0": { type: "8va", octaves: 1 },
+  "1": { type: "15ma", octaves: 2 },
+  "2": { type: "8vb", octaves: -1 },
+  "3": { type: "15mb", octaves: -2 },
+  "4": { type: "22ma", octaves: 3 },
+  "5": { type: "22mb", octaves: -3 },
+};
+
+/** Parse an <Ottava> element and make it the active ottava of the current voice. */
+function startOttava(ottavaEl: Element | undefined): MscxOttava {
+  const subtype = ottavaEl ? childText(ottavaEl, "subtype") : "";
+  const info = OTTAVA_TYPES[subtype] ?? OTTAVA_TYPES["8va"];
+  const ottava = { number: ((ottavaCounter++ - 1) % 6) + 1, type: info.type, octaves: info.octaves };
+  spanners.ottava = ottava;
+  return ottava;
+}
+
+/**
+ * End the active ottava on the given chord. A line ending at a barline has its
+ * end marker before the first chord of the next measure, so fall back to the
+ * voice's most recent chord.
+ */
+function stopOttava(lastChord: MscxChord | null): void {
+  const target = lastChord ?? spanners.lastChord;
+  if (spanners.ottava && target) target.ottavaStop = spanners.ottava;
+  spanners.ottava = null;
+  spanners.ottavaId = null;
+}
+
+/**
+ * Shift every chord of a staff lying under an ottava line to its sounding
+ * octave. A line's markers sit in one voice, but the line covers all voices
+ * of the staff, so chords are matched by position: (measure index, tick).
+ */
+function applyOttavaShifts(measures: MscxMeasure[]): void {
+  const before = (a: [number, number], b: [number, number]): boolean =>
+    a[0] < b[0] || (a[0] === b[0] && a[1] < b[1]);
+  const lines: { ottava: MscxOttava; start: [number, number]; end?: [number, number] }[] = [];
+  const chords: { chord: MscxChord; at: [number, number] }[] = [];
+
+  measures.forEach((measure, m) => {
+    for (const voice of measure.voices) {
+      let tick = voice.startOffset ?? 0;
+      for (const elem of voice.elements) {
+        // Grace notes sit at the tick of the note they lead into
+        const duration = elem.type === "chord" && elem.graceType ? 0 : calcTupletAdjustedDuration(elem);
+        if (elem.type === "chord") {
+          chords.push({ chord: elem, at: [m, tick] });
+          if (elem.ottavaStart) lines.push({ ottava: elem.ottavaStart, start: [m, tick] });
+          const line = elem.ottavaStop && lines.find(l => l.ottava === elem.ottavaStop);
+          if (line) line.end = [m, tick + duration];
+        }
+        tick += duration;
+      }
+    }
+  });
+
+  for (const { chord, at } of chords) {
+    const line = lines.find(l => !before(at, l.start) && (!l.end || before(at, l.end)));
+    if (line) chord.ottavaShift = line.ottava.octaves;
+  }
+}
+
+/**
+ * Parse a <Trill> or <Vibrato> element and make it the active wavy line of the
+ * current voice. Only plain trill lines carry a trill sign.
+ */
+function startWavyLine(lineEl: Element | undefined): MscxWavyLine {
+  const subtype = lineEl ? childText(lineEl, "subtype") : "";
+  const line = {
+    number: ((wavyLineCounter++ - 1) % 6) + 1,
+    trillMark: lineEl?.tagName === "Trill" && (subtype === "" || subtype === "trill" || subtype === "0"),
+  };
+  spanners.wavyLine = line;
+  return line;
+}
+
+/** End the active wavy line on the given chord (or the voice's most recent chord). */
+function stopWavyLine(lastChord: MscxChord | null): void {
+  const target = lastChord ?? spanners.lastChord;
+  if (spanners.wavyLine && target) target.wavyLineStop = spanners.wavyLine;
+  spanners.wavyLine = null;
+  spanners.wavyLineId = null;
+}
+
+/**
+ * Open a glissando line on the note being parsed. Subtype 1 is the wavy line;
+ * portamento is always drawn straight. The text defaults to "gliss." unless
+ * <showText> turns it off.
+ */
+function startGlissando(glissEl: Element | undefined, id: string | null): MscxGlissando {
+  const subtype = glissEl ? childText(glissEl, "subtype") : "";
+  const portamento = !!glissEl && childText(glissEl, "glissandoStyle") === "portamento";
+  const showText = !glissEl || childText(glissEl, "showText") !== "0";
+  const glissando: MscxGlissando = {
+    number: ((glissandoCounter++ - 1) % 6) + 1,
+    lineType: (subtype === "1" || subtype === "wavy") && !portamento ? "wavy" : "straight",
+    text: showText ? (glissEl && childText(glissEl, "text")) || "gliss." : "",
+  };
+  openGlissandi.push({ id, glissando });
+  return glissando;
+}
+
+/**
+ * Close the glissando ending on the note being parsed: the one with the given
+ * v2 spanner ID, or the oldest open line for v3 (which has no IDs).
+ */
+function stopGlissando(id: string | null): MscxGlissando | undefined {
+  const index = id !== null ? openGlissandi.findIndex(g => g.id === id) : 0;
+  if (index < 0 || index >= openGlissandi.length) return undefined;
+  return openGlissandi.splice(index, 1)[0].glissando;
+}
+
+/** Tremolo subtypes: rN strokes a single chord, cN connects two chords */
+const TREMOLO_TYPES: Record<string, { twoChord: boolean; strokes: number }> = {
+  "r8":  { twoChord: false, strokes: 1 },
+  "r16": { twoChord: false, strokes: 2 },
+  "r32": { twoChord: false, strokes: 3 },
+  "r64": { twoChord: false, strokes: 4 },
+  "c8":  { twoChord: true, strokes: 1 },
+  "c16": { twoChord: true, strokes: 2 },
+  "c32": { twoChord: true, strokes: 3 },
+  "c64": { twoChord: true, strokes: 4 },
+};
+
+/** Tremolo tags: <Tremolo> up to 4.1, one tag per kind from 4.2 */
+const TREMOLO_TAGS = ["Tremolo", "TremoloSingleChord", "TremoloTwoChord"];
+
+/**
+ * Parse a chord's tremolo. A two-chord tremolo is written on the first chord
+ * only; its stop is handed to the next chord of the voice.
+ */
+function parseTremolo(chordEl: Element): MscxTremolo | undefined {
+  const tremoloEl = Array.from(chordEl.children).find(el => TREMOLO_TAGS.includes(el.tagName));
+  if (!tremoloEl) {
+    const stop = pendingTremoloStop ?? undefined;
+    pendingTremoloStop = null;
+    return stop;
+  }
+  const subtype = childText(tremoloEl, "subtype");
+  if (subtype === "buzzroll") return { type: "unmeasured", strokes: 0 };
+  const info = TREMOLO_TYPES[subtype];
+  if (!info) return undefined;
+  if (info.twoChord) {
+    pendingTremoloStop = { type: "stop", strokes: info.strokes };
+    return { type: "start", strokes: info.strokes };
+  }
+  return { type: "single", strokes: info.strokes };
+}
+
 function parseChord(chordEl: Element): MscxChord {
   const durationType = childText(chordEl, "durationType") || "quarter";
   const dotsStr = childText(chordEl, "dots");
@@ -677,6 +1524,16 @@ function parseChord(chordEl: Element): MscxChord {
     if (sub) articulations.push(sub);
   }
 
+  // Grace notes never take part in a tremolo
+  const tremolo = graceType ? undefined : parseTremolo(chordEl);
+
+  // Cross-staff notation (chord belongs to this staff's voice but sits on a neighbouring staff)
+  const staffMove = parseInt(childText(chordEl, "staffMove")) || undefined;
+
+  // Engraver's beaming and stem choices ("auto" leaves them to the converter)
+  const beamMode = directChildren(chordEl, "BeamMode")[0]?.textContent?.trim();
+  const beamId = directChildren(chordEl, "Beam")[0]?.textContent?.trim() || undefined;
+
   return {
     type: "chord", durationType, dots, notes,
     lyrics: lyrics.length > 0 ? lyrics : undefined,
@@ -687,9 +1544,21 @@ function parseChord(chordEl: Element): MscxChord {
     articulations: articulations.length > 0 ? articulations : undefined,
     graceType,
     arpeggio,
+    tremolo,
+    staffMove,
+    small: flagElement(chordEl, "small"),
+    beamMode: beamMode && beamMode !== "auto" ? beamMode : undefined,
+    stemDirection: parseStemDirection(chordEl),
+    beamId,
   };
 }
 
+/** Read an explicit <StemDirection> (up/down); undefined when absent or auto. */
+function parseStemDirection(el: Element): "up" | "down" | undefined {
+  const dir = directChildren(el, "StemDirection")[0]?.textContent?.trim();
+  return dir === "up" || dir === "down" ? dir : undefined;
+}
+
 /**
  * Parse a <Lyrics> element. Returns a lyric or a verse label text.
  * Verse labels (e.g. "Kyrie: 1.") are stored as <Lyrics> in MSCX but lack
@@ -715,8 +1584,21 @@ function parseLyric(lyricEl: Element): { lyric: MscxLyric | null; label: { numbe
     return { lyric: null, label: { number, text } };
   }
 
+  // Melisma: <ticks> in v2/v3, <ticks_f> (fraction of a whole note) in v4
+  let melismaTicks = parseInt(childText(lyricEl, "ticks")) || undefined;
+  const ticksParts = childText(lyricEl, "ticks_f").split("/");
+  if (!melismaTicks && ticksParts.length === 2) {
+    const num = parseInt(ticksParts[0]);
+    const den = parseInt(ticksParts[1]);
+    if (num > 0 && den > 0) melismaTicks = Math.round((num / den) * 4 * parseDivision);
+  }
+
+  // Elision: syllables joined by "‿" (or "_" in older files) under one note
+  const syllables = text.split(/[\u203f_]/);
+  const elision = syllables.length > 1 && syllables.every(s => s.trim()) ? syllables : undefined;
+
   // Regular lyric (missing <syllabic> means "single" for single-syllable words)
-  return { lyric: { number, text, syllabic: syllabic || "single" }, label: null };
+  return { lyric: { number, text, syllabic: syllabic || "single", melismaTicks, elision }, label: null };
 }
 
 function parseNote(noteEl: Element): MscxNote {
@@ -731,21 +1613,36 @@ function parseNote(noteEl: Element): MscxNote {
   //     <Spanner type="Tie"><prev>...</prev></Spanner> for end
   let tieStart = false;
   let tieEnd = false;
+  // Glissandi are note-anchored spanners written the same way as ties
+  let glissandoStart: MscxGlissando | undefined;
+  let glissandoStop: MscxGlissando | undefined;
 
-  // v2 format
+  // v2 format (an <endSpanner> closes either a glissando or a tie)
   const v2TieEls = directChildren(noteEl, "Tie");
   if (v2TieEls.length > 0) tieStart = true;
-  const endSpannerEls = noteEl.getElementsByTagName("endSpanner");
-  if (endSpannerEls.length > 0) tieEnd = true;
+  for (const endEl of Array.from(noteEl.getElementsByTagName("endSpanner"))) {
+    const id = endEl.getAttribute("id");
+    if (id !== null && openGlissandi.some(g => g.id === id)) {
+      glissandoStop = stopGlissando(id);
+    } else {
+      tieEnd = true;
+    }
+  }
+  for (const glissEl of directChildren(noteEl, "Glissando")) {
+    glissandoStart = startGlissando(glissEl, glissEl.getAttribute("id"));
+  }
 
   // v3 format: Spanner type="Tie" with next/prev
   const tieSpanners = directChildren(noteEl, "Spanner");
   for (const sp of tieSpanners) {
+    const hasNext = directChildren(sp, "next").length > 0;
+    const hasPrev = directChildren(sp, "prev").length > 0;
     if (sp.getAttribute("type") === "Tie") {
-      const hasNext = directChildren(sp, "next").length > 0;
-      const hasPrev = directChildren(sp, "prev").length > 0;
       if (hasNext) tieStart = true;
       if (hasPrev) tieEnd = true;
+    } else if (sp.getAttribute("type") === "Glissando") {
+      if (hasPrev) glissandoStop = stopGlissando(null);
+      if (hasNext) glissandoStart = startGlissando(directChildren(sp, "Glissando")[0], null);
     }
   }
 
@@ -760,16 +1657,63 @@ function parseNote(noteEl: Element): MscxNote {
   const fingeringEl = directChildren(noteEl, "Fingering")[0];
   const fingering = fingeringEl ? childText(fingeringEl, "text") || undefined : undefined;
 
-  return { pitch, tpc, tpc2, tieStart, tieEnd, accidental, fingering };
+  // Tablature position (written on notes of any staff linked to a TAB staff)
+  const fretEl = directChildren(noteEl, "fret")[0];
+  const stringEl = directChildren(noteEl, "string")[0];
+  const fret = fretEl ? parseInt(fretEl.textContent ?? "") : undefined;
+  const string = stringEl ? parseInt(stringEl.textContent ?? "") : undefined;
+
+  // Percussion: notehead and staff position come from the drum kit
+  const drum = parseDrumset?.get(pitch);
+
+  // Notehead group (names in v3+, numbers in v2) overrides the drum kit's
+  const headEl = directChildren(noteEl, "head")[0] ?? directChildren(noteEl, "headGroup")[0];
+  const headType = headEl?.textContent?.trim() || drum?.headType;
+
+  return {
+    pitch, tpc, tpc2, tieStart, tieEnd, accidental, fingering,
+    headType,
+    line: drum?.line,
+    fret: fret !== undefined && !isNaN(fret) ? fret : undefined,
+    string: string !== undefined && !isNaN(string) ? string : undefined,
+    glissandoStart, glissandoStop,
+    small: flagElement(noteEl, "small"),
+    visible: flagElement(noteEl, "visible"),
+    play: flagElement(noteEl, "play"),
+  };
+}
+
+/** Read a 0/1 flag written as a direct child (e.g. <small>1</small>); undefined when absent. */
+function flagElement(parent: Element, tagName: string): boolean | undefined {
+  const el = directChildren(parent, tagName)[0];
+  return el ? el.textContent?.trim() !== "0" : undefined;
 }
 
 function parseRest(restEl: Element): MscxRest {
-  const durationType = childText(restEl, "durationType") || "quarter";
+  const durationType = childText(restEl, "durationType") || (isMeasureRepeat(restEl) ? "measure" : "quarter");
   const dotsStr = childText(restEl, "dots");
   const dots = dotsStr ? parseInt(dotsStr) : 0;
   const isMeasureRest = durationType === "measure";
 
-  return { type: "rest", durationType, dots, isMeasureRest };
+  return {
+    type: "rest", durationType, dots, isMeasureRest,
+    small: flagElement(restEl, "small"),
+    visible: flagElement(restEl, "visible"),
+  };
+}
+
+/**
+ * Parse a <Harmony> chord symbol. Root and bass are concert-pitch TPCs
+ * (<base> in v2/v3, <bass> in newer v4 files); text-only symbols have no root.
+ */
+function parseHarmony(harmonyEl: Element): MscxHarmony | null {
+  const rootStr = childText(harmonyEl, "root");
+  const bassStr = childText(harmonyEl, "base") || childText(harmonyEl, "bass");
+  const root = rootStr ? parseInt(rootStr) : undefined;
+  const bass = bassStr ? parseInt(bassStr) : undefined;
+  const name = (childText(harmonyEl, "name") || childText(harmonyEl, "text")).replace(/<[^>]+>/g, "");
+  if (root === undefined && !name) return null;
+  return { root, bass, name };
 }
 
 /** Parse a <Tempo> element into MscxTempo. */
@@ -814,27 +1758,127 @@ function parseTempo(tempoEl: Element): MscxTempo | undefined {
   return { bpm, text, beatUnit, beatUnitDot, perMinute };
 }
 
+/** Map MSCX marker subtypes/labels to normalized marker kinds. */
+const MARKER_KINDS: Record<string, MscxMarker["kind"]> = {
+  "segno": "segno",
+  "varsegno": "segno",
+  "codab": "coda",
+  "varcoda": "coda",
+  "codetta": "coda",
+  "fine": "fine",
+  "coda": "toCoda",
+  "tocoda": "toCoda",
+  "tocodasym": "toCoda",
+};
+
+/** Parse a <Marker> element (v2/v3 carry the type in <label>, v4 also in <subtype>). */
+function parseMarker(markerEl: Element): MscxMarker {
+  const label = childText(markerEl, "label");
+  const subtype = childText(markerEl, "subtype") || label;
+  const kind = MARKER_KINDS[subtype.toLowerCase()] ?? "other";
+  const text = childText(markerEl, "text").replace(/<[^>]+>/g, "").trim();
+  return { kind, label: label || subtype, text };
+}
+
+/** Parse a <Jump> element. */
+function parseJump(jumpEl: Element): MscxJump {
+  const text = childText(jumpEl, "text").replace(/<[^>]+>/g, "").trim();
+  const jumpTo = childText(jumpEl, "jumpTo") || "start";
+  const playUntil = childText(jumpEl, "playUntil") || "end";
+  const continueAt = childText(jumpEl, "continueAt");
+  return { text, jumpTo, playUntil, continueAt };
+}
+
 /** Find KeySig in measure (works for both v2 and v3). */
-function findKeySigInMeasure(measureEl: Element): number | undefined {
+function findKeySigInMeasure(measureEl: Element): MscxKeySig | undefined {
   const keySigEls = measureEl.getElementsByTagName("KeySig");
   if (keySigEls.length === 0) return undefined;
-  const el = keySigEls[0];
-  const acc = childText(el, "accidental");
-  if (acc) return parseInt(acc);
-  const concertKey = childText(el, "concertKey");
-  if (concertKey) return parseInt(concertKey);
-  return undefined;
+  return parseKeySig(keySigEls[0]);
+}
+
+const KEY_MODES = new Set<string>([
+  "major", "minor", "dorian", "phrygian", "lydian", "mixolydian", "aeolian", "ionian", "locrian", "none",
+]);
+
+/** Semitone alteration of the accidental symbols a custom key can hold */
+const KEY_SYM_ALTERS: Record<string, number> = {
+  accidentalDoubleFlat: -2, accidentalFlat: -1, accidentalNatural: 0,
+  accidentalSharp: 1, accidentalDoubleSharp: 2,
+};
+
+/**
+ * Parse a <KeySig>. A custom key without symbols is MuseScore's open
+ * (atonal) key.
+ */
+function parseKeySig(el: Element): MscxKeySig | undefined {
+  const custom = childText(el, "custom") === "1";
+  const acc = childText(el, "accidental") || childText(el, "concertKey");
+  if (!acc && !custom) return undefined;
+  const keySig: MscxKeySig = { fifths: custom ? 0 : parseInt(acc) || 0 };
+  const mode = childText(el, "mode");
+  if (KEY_MODES.has(mode)) keySig.mode = mode as MscxKeyMode;
+  if (custom) {
+    const accidentals = parseCustomKey(el);
+    if (accidentals.length > 0) keySig.custom = accidentals;
+    else keySig.mode = "none";
+  }
+  return keySig;
+}
+
+/**
+ * Accidentals of a custom key, in drawing order: v3 writes <KeySym> with a
+ * position in spaces below the top line of a treble staff, v4 <CustDef>
+ * with a scale degree (0 = C).
+ */
+function parseCustomKey(el: Element): MscxKeyAccidental[] {
+  const accidentals: MscxKeyAccidental[] = [];
+  for (const symEl of directChildren(el, "KeySym").concat(directChildren(el, "CustDef"))) {
+    const alter = KEY_SYM_ALTERS[childText(symEl, "sym")];
+    if (alter === undefined) continue;
+    const posEl = symEl.getElementsByTagName("pos")[0];
+    const defEl = symEl.getElementsByTagName("def")[0];
+    // Scale degree counted from C: the top line of a treble staff is F (3)
+    let degree: number;
+    if (posEl) degree = 3 - Math.round(parseFloat(posEl.getAttribute("y") ?? "0") * 2);
+    else if (defEl) degree = parseInt(defEl.getAttribute("degree") ?? "0");
+    else continue;
+    accidentals.push({ step: "CDEFGAB"[((degree % 7) + 7) % 7], alter });
+  }
+  return accidentals;
 }
 
 /** Find TimeSig in measure. */
-function findTimeSigInMeasure(measureEl: Element): { beats: number; beatType: number } | undefined {
+function findTimeSigInMeasure(measureEl: Element): MscxTimeSig | undefined {
   const tsEls = measureEl.getElementsByTagName("TimeSig");
   if (tsEls.length === 0) return undefined;
-  const el = tsEls[0];
+  return parseTimeSig(tsEls[0]);
+}
+
+/** MuseScore TimeSig subtypes drawn as symbols: fourQuarter, allaBreve, cutBach */
+const TIME_SIG_SYMBOLS: Record<string, "common" | "cut"> = { "1": "common", "2": "cut", "3": "cut" };
+
+/**
+ * Parse a <TimeSig>. An additive numerator ("3+2+2") comes from the
+ * numerator text override and is kept only when it adds up to sigN.
+ * Local (per-staff) time signatures also carry a stretch.
+ */
+function parseTimeSig(el: Element): MscxTimeSig | undefined {
   const beats = parseInt(childText(el, "sigN"));
   const beatType = parseInt(childText(el, "sigD"));
-  if (beats && beatType) return { beats, beatType };
-  return undefined;
+  if (!beats || !beatType) return undefined;
+  const timeSig: MscxTimeSig = { beats, beatType };
+  const symbol = TIME_SIG_SYMBOLS[childText(el, "subtype")];
+  if (symbol) timeSig.symbol = symbol;
+  // Local time signatures carry their ratio to the global one
+  const stretchN = parseInt(childText(el, "stretchN"));
+  const stretchD = parseInt(childText(el, "stretchD"));
+  if (stretchN > 0 && stretchD > 0 && stretchN !== stretchD) timeSig.stretch = stretchN / stretchD;
+  const numerator = (childText(el, "numeratorString") || childText(el, "textN")).replace(/\s/g, "");
+  if (/^\d+(\+\d+)+$/.test(numerator)) {
+    const groups = numerator.split("+").map(n => parseInt(n));
+    if (groups.reduce((a, b) => a + b, 0) === beats) timeSig.groups = groups;
+  }
+  return timeSig;
 }
 
 /** Find Clef change in measure (not initial clef). */
@@ -4,76 +4,153 @@
  * Builds a MusicXML score-partwise document that OSMD can render.
  */
 
-import { MscxScore, MscxPart, MscxMeasure, MscxVoice, MscxChord, MscxRest, MscxElement, MscxTempo, MscxTupletInfo } from "./MscxTypes";
-import { tpcToPitch } from "./TpcUtils";
-import { DURATION_MAP, calcDuration, getClefInfo, getAccidentalName, NOTATION_MAP } from "./ConvertHelpers";
+import { MscxScore, MscxPart, MscxMeasure, MscxVoice, MscxChord, MscxRest, MscxElement, MscxLyric, MscxInstrument, MscxInstrumentChange, MscxKeySig, MscxTimeSig, MscxBarline, MscxBarlineType, MscxTempo, MscxTupletInfo, MscxVolta, MscxMarker, MscxJump, MscxHarmony, MscxOttava, MscxPedal, MscxGlissando } from "./MscxTypes";
+import { tpcToPitch, tpcToStep, tpcToAlter, transposeTpc, midiToTpc } from "./TpcUtils";
+import { DURATION_MAP, calcTupletAdjustedDuration, doubleDurationType, getClefInfo, getAccidentalName, NOTATION_MAP, NOTEHEAD_MAP, parseChordName, percussionLineToDisplay } from "./ConvertHelpers";
+
+/** Options for MusicXML conversion. */
+export interface ConvertOptions {
+  /** Collapse runs of empty measures into multi-measure rests, as in printed parts. Default: false. */
+  multiMeasureRests?: boolean;
+}
 
 /**
  * Convert a parsed MscxScore to a MusicXML string.
  */
-export function convertToMusicXml(score: MscxScore): string {
+export function convertToMusicXml(score: MscxScore, options?: ConvertOptions): string {
   const doc = document.implementation.createDocument(null, "score-partwise", null);
   const root = doc.documentElement;
   root.setAttribute("version", "3.1");
 
-  // Work title (metadata only, not rendered by OSMD)
+  // Work title (OSMD shows it as the title, and the movement title as the subtitle)
   if (score.title) {
     const work = appendElement(doc, root, "work");
     appendTextElement(doc, work, "work-title", score.title);
   }
+  if (score.metadata.subtitle) {
+    appendTextElement(doc, root, "movement-title", score.metadata.subtitle);
+  }
 
   // Identification
   {
     const identification = appendElement(doc, root, "identification");
-    if (score.composer) {
-      const creator = appendTextElement(doc, identification, "creator", score.composer);
-      creator.setAttribute("type", "composer");
+    const creators: [string, string][] = [
+      ["composer", score.composer],
+      ["lyricist", score.lyricist],
+      ["poet", score.metadata.poet],
+      ["arranger", score.metadata.arranger],
+      ["translator", score.metadata.translator],
+    ];
+    for (const [type, name] of creators) {
+      if (name) {
+        const creator = appendTextElement(doc, identification, "creator", name);
+        creator.setAttribute("type", type);
+      }
     }
-    if (score.lyricist) {
-      const creator = appendTextElement(doc, identification, "creator", score.lyricist);
-      creator.setAttribute("type", "lyricist");
+    if (score.metadata.copyright) {
+      appendTextElement(doc, identification, "rights", score.metadata.copyright);
+    }
+    if (score.metadata.source) {
+      appendTextElement(doc, identification, "source", score.metadata.source);
     }
   }
 
-  // Credit elements (OSMD renders these as page headers)
-  if (score.title) {
-    const credit = appendElement(doc, root, "credit");
-    credit.setAttribute("page", "1");
-    const cw = appendTextElement(doc, credit, "credit-words", score.title);
-    cw.setAttribute("default-x", "612");
-    cw.setAttribute("default-y", "1553");
-    cw.setAttribute("justify", "center");
-    cw.setAttribute("valign", "top");
-    cw.setAttribute("font-size", "22");
-  }
-  if (score.composer) {
-    const credit = appendElement(doc, root, "credit");
-    credit.setAttribute("page", "1");
-    const cw = appendTextElement(doc, credit, "credit-words", score.composer);
-    cw.setAttribute("default-x", "1124");
-    cw.setAttribute("default-y", "1453");
-    cw.setAttribute("justify", "right");
-    cw.setAttribute("valign", "top");
-    cw.setAttribute("font-size", "10");
-  }
-  if (score.lyricist) {
-    const credit = appendElement(doc, root, "credit");
-    credit.setAttribute("page", "1");
-    const cw = appendTextElement(doc, credit, "credit-words", score.lyricist);
-    cw.setAttribute("default-x", "100");
-    cw.setAttribute("default-y", "1453");
-    cw.setAttribute("justify", "left");
-    cw.setAttribute("valign", "top");
-    cw.setAttribute("font-size", "10");
-  }
-
-  // Part list
+  // Page layout in tenths (40 tenths = one staff height = 4 staff spaces)
+  const page = score.page;
+  const tenths = (inches: number) => Math.round(inches * 254 / page.spatium);
+  {
+    const defaults = appendElement(doc, root, "defaults");
+    const scaling = appendElement(doc, defaults, "scaling");
+    appendTextElement(doc, scaling, "millimeters", String(Math.round(page.spatium * 4 * 1000) / 1000));
+    appendTextElement(doc, scaling, "tenths", "40");
+    const pageLayout = appendElement(doc, defaults, "page-layout");
+    appendTextElement(doc, pageLayout, "page-height", String(tenths(page.height)));
+    appendTextElement(doc, pageLayout, "page-width", String(tenths(page.width)));
+    const margins = appendElement(doc, pageLayout, "page-margins");
+    margins.setAttribute("type", "both");
+    appendTextElement(doc, margins, "left-margin", String(tenths(page.leftMargin)));
+    appendTextElement(doc, margins, "right-margin", String(tenths(page.rightMargin)));
+    appendTextElement(doc, margins, "top-margin", String(tenths(page.topMargin)));
+    appendTextElement(doc, margins, "bottom-margin", String(tenths(page.bottomMargin)));
+  }
+
+  // Credit elements (OSMD renders these as page headers), stacked down from the top margin:
+  // title, subtitle and other frame texts centered, then composer/arranger on the right
+  // and lyricist/poet/translator on the left; the copyright line sits on the bottom margin
+  {
+    const textHeight = (text: string, fontSize: number) => tenths(fontSize * 1.2 / 72) * text.split("\n").length;
+    const centerX = tenths(page.width / 2);
+    let y = tenths(page.height - page.topMargin);
+
+    const centered: [string | undefined, string, number][] = [
+      ["title", score.title, 22],
+      ["subtitle", score.metadata.subtitle, 16],
+      ...score.metadata.frameTexts.map(ft => [undefined, ft.text, 12] as [undefined, string, number]),
+    ];
+    for (const [type, text, fontSize] of centered) {
+      if (!text) continue;
+      emitCredit(doc, root, type, text, centerX, y, "center", "top", fontSize);
+      y -= textHeight(text, fontSize);
+    }
+
+    const sides: [number, "left" | "right", [string, string][]][] = [
+      [tenths(page.width - page.rightMargin), "right", [["composer", score.composer], ["arranger", score.metadata.arranger]]],
+      [tenths(page.leftMargin), "left", [["lyricist", score.lyricist], ["lyricist", score.metadata.poet], ["translator", score.metadata.translator]]],
+    ];
+    for (const [x, justify, texts] of sides) {
+      let sideY = y;
+      for (const [type, text] of texts) {
+        if (!text) continue;
+        emitCredit(doc, root, type, text, x, sideY, justify, "top", 10);
+        sideY -= textHeight(text, 10);
+      }
+    }
+
+    if (score.metadata.copyright) {
+      emitCredit(doc, root, "rights", score.metadata.copyright, centerX, tenths(page.bottomMargin), "center", "bottom", 8);
+    }
+  }
+
+  // Part list; groups open outermost first and close innermost first, so they nest
   const partList = appendElement(doc, root, "part-list");
+  const groups = score.partGroups
+    .map((group, i) => ({ ...group, number: i + 1 }))
+    .sort((a, b) => (b.lastPart - b.firstPart) - (a.lastPart - a.firstPart));
   for (let p = 0; p < score.parts.length; p++) {
     const part = score.parts[p];
+    for (const group of groups) {
+      if (group.firstPart !== p) continue;
+      const groupEl = appendElement(doc, partList, "part-group");
+      groupEl.setAttribute("type", "start");
+      groupEl.setAttribute("number", String(group.number));
+      appendTextElement(doc, groupEl, "group-symbol", group.symbol);
+      appendTextElement(doc, groupEl, "group-barline", group.barline ? "yes" : "no");
+    }
     const scorePart = appendElement(doc, partList, "score-part");
     scorePart.setAttribute("id", `P${p + 1}`);
     appendTextElement(doc, scorePart, "part-name", part.trackName || part.instrument.longName || `Part ${p + 1}`);
+
+    // Drum kit pieces, referenced from notes via <instrument id>
+    if (part.instrument.drumset) {
+      for (const [pitch, drum] of part.instrument.drumset) {
+        const scoreInst = appendElement(doc, scorePart, "score-instrument");
+        scoreInst.setAttribute("id", drumInstrumentId(`P${p + 1}`, pitch));
+        appendTextElement(doc, scoreInst, "instrument-name", drum.name || `Drum ${pitch}`);
+      }
+      for (const pitch of part.instrument.drumset.keys()) {
+        const midiInst = appendElement(doc, scorePart, "midi-instrument");
+        midiInst.setAttribute("id", drumInstrumentId(`P${p + 1}`, pitch));
+        appendTextElement(doc, midiInst, "midi-channel", "10");
+        appendTextElement(doc, midiInst, "midi-unpitched", String(pitch + 1));
+      }
+    }
+
+    for (const group of [...groups].reverse()) {
+      if (group.lastPart !== p) continue;
+      const groupEl = appendElement(doc, partList, "part-group");
+      groupEl.setAttribute("type", "stop");
+      groupEl.setAttribute("number", String(group.number));
+    }
   }
 
   // Parts with measures
@@ -82,7 +159,7 @@ export function convertToMusicXml(score: MscxScore): string {
     const partEl = appendElement(doc, root, "part");
     partEl.setAttribute("id", `P${p + 1}`);
 
-    buildPart(doc, partEl, part, score);
+    buildPart(doc, partEl, part, score, options ?? {});
   }
 
   // Serialize to string
@@ -98,59 +175,127 @@ export function convertToMusicXml(score: MscxScore): string {
   return header + xmlStr;
 }
 
-function buildPart(doc: Document, partEl: Element, part: MscxPart, score: MscxScore): void {
+/** Append a page-1 <credit> with a single <credit-words> positioned in tenths. */
+function emitCredit(
+  doc: Document, root: Element, type: string | undefined, text: string,
+  x: number, y: number, justify: string, valign: string, fontSize: number
+): void {
+  const credit = appendElement(doc, root, "credit");
+  credit.setAttribute("page", "1");
+  if (type) appendTextElement(doc, credit, "credit-type", type);
+  const cw = appendTextElement(doc, credit, "credit-words", text);
+  cw.setAttribute("default-x", String(x));
+  cw.setAttribute("default-y", String(y));
+  cw.setAttribute("justify", justify);
+  cw.setAttribute("valign", valign);
+  cw.setAttribute("font-size", String(fontSize));
+}
+
+function buildPart(doc: Document, partEl: Element, part: MscxPart, score: MscxScore, options: ConvertOptions): void {
   const numStaves = part.staffIds.length;
   const isMultiStaff = numStaves > 1;
-  const isTransposing = part.instrument.transposeChromatic !== 0;
 
   // Get measures from first staff to determine measure count
   const firstStaffMeasures = score.staffData.get(part.staffIds[0]);
   if (!firstStaffMeasures) return;
 
   const measureCount = firstStaffMeasures.length;
+  const codaTargets = collectCodaTargets(score);
+  const multiRests = options.multiMeasureRests ? findMultiMeasureRests(score, part) : new Map<number, number>();
+  const measureNumbers = computeMeasureNumbers(score);
+  const melismas = findMelismas(score, part);
+  const instruments = instrumentsByMeasure(score, part, measureCount);
 
   for (let m = 0; m < measureCount; m++) {
     const measureEl = appendElement(doc, partEl, "measure");
-    measureEl.setAttribute("number", String(m + 1));
+    measureEl.setAttribute("number", measureNumbers[m]?.number ?? String(m + 1));
+    if (measureNumbers[m]?.implicit) measureEl.setAttribute("implicit", "yes");
+
+    // Instrument in use (doubling players switch mid-score), with its transposition
+    const instrument = instruments[m];
+    const instrumentChange = findInstrumentChange(score, part, m);
+    const measurePart: MscxPart = { ...part, instrument };
+    const isTransposing = instrument.transposeChromatic !== 0;
+
+    // A break after the previous measure starts a new system or page here
+    const layoutBreak = m > 0 ? findLayoutBreak(score, m - 1) : undefined;
+    if (layoutBreak) {
+      const printEl = appendElement(doc, measureEl, "print");
+      printEl.setAttribute(layoutBreak === "page" ? "new-page" : "new-system", "yes");
+    }
 
     let needAttributes = false;
-    let attrKeySig: number | undefined;
-    let attrTimeSig: { beats: number; beatType: number } | undefined;
+    let attrKeySig: MscxKeySig | undefined;
+    let timeSigChange = false;
     const attrClefs: { staffNum: number; clef: string }[] = [];
 
     // Collect attributes and barline/tempo info from all staves
     let startRepeat = false;
     let endRepeat: number | undefined;
-    let endBarline: string | undefined;
+    let endBarline: MscxBarline | undefined;
     let tempo: MscxTempo | undefined;
+    let markers: MscxMarker[] = [];
+    let jumps: MscxJump[] = [];
+    let measureLen: number | undefined;
+    let rehearsalMark: string | undefined;
+    // Measure-repeat signs starting or ending here, per staff
+    const measureRepeats: { staffNum: number; type: "start" | "stop"; count?: number }[] = [];
 
     for (let s = 0; s < numStaves; s++) {
       const staffMeasures = score.staffData.get(part.staffIds[s]);
       if (!staffMeasures || m >= staffMeasures.length) continue;
       const sm = staffMeasures[m];
 
+      // Consecutive groups of the same size continue the previous repeat
+      const prevRepeat = m > 0 ? staffMeasures[m - 1].measureRepeat : undefined;
+      if (prevRepeat && prevRepeat !== sm.measureRepeat) {
+        measureRepeats.push({ staffNum: s + 1, type: "stop" });
+      }
+      if (sm.measureRepeat && sm.measureRepeat !== prevRepeat) {
+        measureRepeats.push({ staffNum: s + 1, type: "start", count: sm.measureRepeat });
+      }
+
       if (sm.keySig !== undefined) { attrKeySig = sm.keySig; needAttributes = true; }
-      if (sm.timeSig) { attrTimeSig = sm.timeSig; needAttributes = true; }
+      if (sm.timeSig) { timeSigChange = true; needAttributes = true; }
       if (sm.clef) {
         attrClefs.push({ staffNum: s + 1, clef: sm.clef });
         needAttributes = true;
       }
       if (sm.startRepeat) startRepeat = true;
+      // An end-start-repeat barline opens a repeat in the next measure
+      if (m > 0 && staffMeasures[m - 1].endBarline?.type === "end-start-repeat") startRepeat = true;
       if (sm.endRepeat) endRepeat = sm.endRepeat;
       if (sm.endBarline) endBarline = sm.endBarline;
       if (sm.tempo) tempo = sm.tempo;
+      if (sm.markers) markers = sm.markers;
+      if (sm.jumps) jumps = sm.jumps;
+      if (sm.len) measureLen = sm.len;
+      if (sm.rehearsalMark) rehearsalMark = sm.rehearsalMark;
     }
+    // Repeat barlines repeat even without an <endRepeat> on the measure
+    if (!endRepeat && (endBarline?.type === "end-repeat" || endBarline?.type === "end-start-repeat")) endRepeat = 2;
 
     // First measure always needs attributes
     if (m === 0) needAttributes = true;
+    const multiRest = multiRests.get(m);
+    if (multiRest || measureRepeats.length > 0 || instrumentChange) needAttributes = true;
+
+    const voltas = findVoltas(score, m);
 
-    // Left barline (repeat forward)
-    if (startRepeat) {
+    // Left barline (repeat forward, volta start)
+    if (startRepeat || voltas.start) {
       const barline = appendElement(doc, measureEl, "barline");
       barline.setAttribute("location", "left");
-      appendTextElement(doc, barline, "bar-style", "heavy-light");
-      const repeat = appendElement(doc, barline, "repeat");
-      repeat.setAttribute("direction", "forward");
+      if (startRepeat) {
+        appendTextElement(doc, barline, "bar-style", "heavy-light");
+      }
+      if (voltas.start) {
+        emitEnding(doc, barline, voltas.start, "start");
+      }
+      if (startRepeat) {
+        const repeat = appendElement(doc, barline, "repeat");
+        repeat.setAttribute("direction", "forward");
+      }
     }
 
     if (needAttributes) {
@@ -161,14 +306,17 @@ function buildPart(doc: Document, partEl: Element, part: MscxPart, score: MscxSc
       }
 
       if (attrKeySig !== undefined || m === 0) {
-        const key = appendElement(doc, attrs, "key");
-        appendTextElement(doc, key, "fifths", String(attrKeySig ?? 0));
+        emitKeySignature(doc, attrs, attrKeySig ?? { fifths: 0 });
       }
 
-      if (attrTimeSig || m === 0) {
-        const time = appendElement(doc, attrs, "time");
-        appendTextElement(doc, time, "beats", String(attrTimeSig?.beats ?? 4));
-        appendTextElement(doc, time, "beat-type", String(attrTimeSig?.beatType ?? 4));
+      // Staves with a local time signature get their own <time>
+      if (timeSigChange || m === 0) {
+        const staffTimeSigs = part.staffIds.map(id => findCurrentTimeSig(score, id, m));
+        if (staffTimeSigs.every(ts => sameTimeSig(ts, staffTimeSigs[0]))) {
+          emitTimeSignature(doc, attrs, staffTimeSigs[0]);
+        } else {
+          staffTimeSigs.forEach((ts, s) => emitTimeSignature(doc, attrs, ts, s + 1));
+        }
       }
 
       if (m === 0 && isMultiStaff) {
@@ -205,12 +353,63 @@ function buildPart(doc: Document, partEl: Element, part: MscxPart, score: MscxSc
         }
       }
 
-      // Transpose
-      if (m === 0 && isTransposing) {
+      // Tablature staff details: line count and open-string tuning (line 1 = lowest string)
+      if (m === 0 && part.instrument.tabStaves) {
+        for (const [staffNum, lines] of part.instrument.tabStaves) {
+          const details = appendElement(doc, attrs, "staff-details");
+          if (isMultiStaff) details.setAttribute("number", String(staffNum));
+          appendTextElement(doc, details, "staff-lines", String(lines));
+          const tuning = part.instrument.stringTuning ?? [];
+          for (let t = 0; t < tuning.length; t++) {
+            const { step, alter, octave } = tpcToPitch(midiToTpc(tuning[t]), tuning[t]);
+            const tuningEl = appendElement(doc, details, "staff-tuning");
+            tuningEl.setAttribute("line", String(t + 1));
+            appendTextElement(doc, tuningEl, "tuning-step", step);
+            if (alter !== 0) appendTextElement(doc, tuningEl, "tuning-alter", String(alter));
+            appendTextElement(doc, tuningEl, "tuning-octave", String(octave));
+          }
+        }
+      }
+
+      // Transpose (restated at instrument changes, 0 when switching to a concert-pitch instrument)
+      if ((m === 0 && isTransposing) || instrumentChange) {
         const transpose = appendElement(doc, attrs, "transpose");
-        appendTextElement(doc, transpose, "diatonic", String(part.instrument.transposeDiatonic));
-        appendTextElement(doc, transpose, "chromatic", String(part.instrument.transposeChromatic));
+        appendTextElement(doc, transpose, "diatonic", String(instrument.transposeDiatonic));
+        appendTextElement(doc, transpose, "chromatic", String(instrument.transposeChromatic));
+      }
+
+      // Measure style: multi-measure rest (whole part) or measure-repeat signs (per staff)
+      if (multiRest) {
+        const style = appendElement(doc, attrs, "measure-style");
+        appendTextElement(doc, style, "multiple-rest", String(multiRest));
       }
+      for (const { staffNum, type, count } of measureRepeats) {
+        const style = appendElement(doc, attrs, "measure-style");
+        if (isMultiStaff) style.setAttribute("number", String(staffNum));
+        const repeatEl = type === "start"
+          ? appendTextElement(doc, style, "measure-repeat", String(count))
+          : appendElement(doc, style, "measure-repeat");
+        repeatEl.setAttribute("type", type);
+      }
+    }
+
+    // Instrument change cue (e.g. "To Picc.")
+    if (instrumentChange) {
+      const cue = instrumentChange.text || instrument.longName;
+      if (cue) {
+        const direction = appendElement(doc, measureEl, "direction");
+        direction.setAttribute("placement", "above");
+        const dt = appendElement(doc, direction, "direction-type");
+        appendTextElement(doc, dt, "words", cue);
+      }
+    }
+
+    // Rehearsal mark (boxed, as MuseScore draws it by default)
+    if (rehearsalMark) {
+      const direction = appendElement(doc, measureEl, "direction");
+      direction.setAttribute("placement", "above");
+      const dt = appendElement(doc, direction, "direction-type");
+      appendTextElement(doc, dt, "rehearsal", rehearsalMark).setAttribute("enclosure", "square");
     }
 
     // Tempo direction (before notes)
@@ -237,6 +436,13 @@ function buildPart(doc: Document, partEl: Element, part: MscxPart, score: MscxSc
       sound.setAttribute("tempo", String(tempo.bpm));
     }
 
+    // Segno/coda signs mark the start of the measure
+    for (const marker of markers) {
+      if (marker.kind !== "fine" && marker.kind !== "toCoda") {
+        emitMarkerDirection(doc, measureEl, marker, codaTargets);
+      }
+    }
+
     // Collect verse labels from all voices in all staves (keyed by verse number)
     const pendingLabels = new Map<number, string>();
     for (let s = 0; s < numStaves; s++) {
@@ -253,26 +459,27 @@ function buildPart(doc: Document, partEl: Element, part: MscxPart, score: MscxSc
       }
     }
 
-    // Calculate measure duration for backup
-    const currentTimeSig = findCurrentTimeSig(score, part, m);
-    const measureDuration = calcMeasureDuration(currentTimeSig, score.division);
-
-    // Emit notes for each staff
+    // Emit notes for each staff. Durations are in score time: a staff with a
+    // local time signature is stretched to fill the same measure length.
+    let written = 0;
+    // Positions of the barlines written within the measure
+    const barlineTicks = new Set<number>();
     for (let s = 0; s < numStaves; s++) {
       const staffNum = s + 1;
       const staffMeasures = score.staffData.get(part.staffIds[s]);
       if (!staffMeasures || m >= staffMeasures.length) continue;
       const sm = staffMeasures[m];
 
-      if (s > 0) {
-        emitBackup(doc, measureEl, measureDuration);
-      }
+      const currentTimeSig = findCurrentTimeSig(score, part.staffIds[s], m);
+      // Pickups and irregular bars are shorter (or longer) than the time signature says
+      const measureDuration = calcStaffMeasureDuration(currentTimeSig, measureLen, score.division);
+      const stretch = currentTimeSig.stretch ?? 1;
 
       const multiVoice = sm.voices.length > 1;
 
       for (let v = 0; v < sm.voices.length; v++) {
-        if (v > 0) {
-          emitBackup(doc, measureEl, measureDuration);
+        if (written > 0) {
+          emitBackup(doc, measureEl, written);
         }
 
         const voice = sm.voices[v];
@@ -282,47 +489,214 @@ function buildPart(doc: Document, partEl: Element, part: MscxPart, score: MscxSc
 
         // Forward to voice start offset (v3 <location> element)
         if (voice.startOffset && voice.startOffset > 0) {
-          emitForward(doc, measureEl, voice.startOffset);
+          emitForward(doc, measureEl, Math.round(voice.startOffset / stretch));
         }
 
-        emitVoiceElements(doc, measureEl, voice, voiceNum, staffNum, isMultiStaff, isTransposing, part, score.division, currentTimeSig, pendingLabels, stemDirection);
+        emitVoiceElements(doc, measureEl, voice, voiceNum, staffNum, isMultiStaff, isTransposing, measurePart, partEl.getAttribute("id")!, score.division, currentTimeSig, measureDuration, barlineTicks, pendingLabels, melismas, stemDirection);
+        written = measureDuration;
       }
     }
 
-    // Right barline (repeat backward, double, final)
+    // Fine, To Coda and jumps take effect at the end of the measure (after all voices)
+    for (const marker of markers) {
+      if (marker.kind === "fine" || marker.kind === "toCoda") {
+        emitMarkerDirection(doc, measureEl, marker, codaTargets);
+      }
+    }
+    for (const jump of jumps) {
+      emitJumpDirection(doc, measureEl, jump);
+    }
+
+    // Right barline (repeat backward, authored style, final, volta end)
     const isLastMeasure = m === measureCount - 1;
-    if (endRepeat || endBarline || isLastMeasure) {
+    if (endRepeat || endBarline || isLastMeasure || voltas.stop) {
       const barline = appendElement(doc, measureEl, "barline");
       barline.setAttribute("location", "right");
       if (endRepeat) {
         appendTextElement(doc, barline, "bar-style", "light-heavy");
+      } else if (endBarline) {
+        appendTextElement(doc, barline, "bar-style", barStyle(endBarline));
+      } else if (isLastMeasure) {
+        appendTextElement(doc, barline, "bar-style", "light-heavy");
+      }
+      // Open-ended voltas (typically the last ending) have no closing hook
+      if (voltas.stop) {
+        emitEnding(doc, barline, voltas.stop, voltas.stop.closed ? "stop" : "discontinue");
+      }
+      if (endRepeat) {
         const repeat = appendElement(doc, barline, "repeat");
         repeat.setAttribute("direction", "backward");
         if (endRepeat > 2) {
           repeat.setAttribute("times", String(endRepeat));
         }
-      } else if (endBarline === "end" || isLastMeasure) {
-        appendTextElement(doc, barline, "bar-style", "light-heavy");
-      } else if (endBarline === "double") {
-        appendTextElement(doc, barline, "bar-style", "light-light");
       }
     }
   }
 }
 
-/** Calculate actual tick duration, adjusted for tuplets. */
-function calcTupletAdjustedDuration(elem: MscxElement): number {
-  const baseDuration = calcDuration(elem.durationType, elem.dots);
-  if (elem.tuplet) {
-    return Math.round(baseDuration * elem.tuplet.normalNotes / elem.tuplet.actualNotes);
+/**
+ * Find runs of empty measures (only full-measure rests on every staff of the
+ * part) to show as multi-measure rests. Like MuseScore, runs break wherever
+ * something has to stay visible: key, time or clef changes, tempo and
+ * navigation marks, voltas, repeat or special barlines, and section breaks.
+ * Returns the run length keyed by the index of its first measure.
+ */
+function findMultiMeasureRests(score: MscxScore, part: MscxPart): Map<number, number> {
+  const runs = new Map<number, number>();
+  const staves = part.staffIds.map(id => score.staffData.get(id) ?? []);
+  const measureCount = staves[0]?.length ?? 0;
+  let runStart = -1;
+
+  const endRun = (end: number) => {
+    if (runStart >= 0 && end - runStart >= 2) runs.set(runStart, end - runStart);
+    runStart = -1;
+  };
+
+  for (let m = 0; m < measureCount; m++) {
+    const measures = staves.map(staff => staff[m]).filter(sm => sm !== undefined);
+    const isEmpty = measures.every(sm =>
+      !sm.measureRepeat && sm.voices.every(voice => voice.elements.every(elem =>
+        elem.type === "rest" && elem.isMeasureRest && !elem.harmony)));
+    if (!isEmpty) {
+      endRun(m);
+      continue;
+    }
+
+    const voltas = findVoltas(score, m);
+    const opensSection = !!voltas.start || measures.some(sm =>
+      sm.keySig !== undefined || sm.timeSig || sm.clef || sm.tempo || sm.rehearsalMark || sm.startRepeat ||
+      sm.markers || sm.jumps);
+    const closesSection = !!voltas.stop || findLayoutBreak(score, m) === "section" || measures.some(sm =>
+      sm.endRepeat || (sm.endBarline && (sm.endBarline.type !== "normal" || sm.endBarline.span)) || sm.markers || sm.jumps);
+
+    if (opensSection) endRun(m);
+    if (runStart < 0) runStart = m;
+    if (closesSection) endRun(m + 1);
+  }
+  endRun(measureCount);
+  return runs;
+}
+
+/** Lyric extender lines of a part: the syllables starting one, and the verses ending on each chord. */
+interface Melismas {
+  starts: Set<MscxLyric>;
+  stops: Map<MscxChord, number[]>;
+}
+
+/**
+ * Resolve lyric melismas. A held syllable's <ticks> reach from its chord to
+ * the start of the last chord it is sung on, which may lie several measures
+ * later in the same voice. Only single and word-final syllables get an
+ * extender line; held inner syllables are drawn with hyphens instead.
+ */
+function findMelismas(score: MscxScore, part: MscxPart): Melismas {
+  const melismas: Melismas = { starts: new Set(), stops: new Map() };
+
+  for (const staffId of part.staffIds) {
+    // Open melismas by voice index, then verse number
+    const open = new Map<number, Map<number, { lyric: MscxLyric; endTick: number; lastChord?: MscxChord }>>();
+    const close = (verses: Map<number, { lyric: MscxLyric; endTick: number; lastChord?: MscxChord }>, verse: number) => {
+      const melisma = verses.get(verse)!;
+      verses.delete(verse);
+      if (!melisma.lastChord) return;
+      melismas.starts.add(melisma.lyric);
+      const stops = melismas.stops.get(melisma.lastChord) ?? [];
+      stops.push(verse);
+      melismas.stops.set(melisma.lastChord, stops);
+    };
+
+    let timeSig: MscxTimeSig = { beats: 4, beatType: 4 };
+    let measureStart = 0;
+    for (const measure of score.staffData.get(staffId) ?? []) {
+      if (measure.timeSig) timeSig = measure.timeSig;
+      const measureDuration = calcStaffMeasureDuration(timeSig, measure.len, score.division);
+      // Melisma lengths are in score time; a local time signature's notes run at its stretch
+      const stretch = timeSig.stretch ?? 1;
+
+      for (let v = 0; v < measure.voices.length; v++) {
+        const voice = measure.voices[v];
+        if (!open.has(v)) open.set(v, new Map());
+        const verses = open.get(v)!;
+        let tick = measureStart + (voice.startOffset ?? 0) / stretch;
+
+        for (const elem of voice.elements) {
+          if (elem.type === "chord" && elem.graceType) continue;
+          // Held syllables reach every chord starting within their span, up to the next syllable
+          const lyrics = elem.type === "chord" ? elem.lyrics ?? [] : [];
+          for (const [verse, melisma] of verses) {
+            if (tick > melisma.endTick || lyrics.some(l => l.number === verse)) close(verses, verse);
+            else if (elem.type === "chord") melisma.lastChord = elem;
+          }
+          if (elem.type === "chord") {
+            for (const lyric of lyrics) {
+              if (lyric.melismaTicks && (lyric.syllabic === "single" || lyric.syllabic === "end")) {
+                verses.set(lyric.number, { lyric, endTick: tick + lyric.melismaTicks });
+              }
+            }
+          }
+          tick += elem.type === "rest" && elem.isMeasureRest ? measureDuration : calcTupletAdjustedDuration(elem) / stretch;
+        }
+      }
+      measureStart += measureDuration;
+    }
+
+    for (const verses of open.values()) {
+      for (const verse of Array.from(verses.keys())) close(verses, verse);
+    }
+  }
+  return melismas;
+}
+
+/** Authored break after measure m. Breaks are system-wide and usually written on the first staff only. */
+function findLayoutBreak(score: MscxScore, m: number): MscxMeasure["layoutBreak"] {
+  for (const staffMeasures of score.staffData.values()) {
+    const layoutBreak = staffMeasures[m]?.layoutBreak;
+    if (layoutBreak) return layoutBreak;
+  }
+  return undefined;
+}
+
+/**
+ * Measure numbers as MuseScore displays them. Measures excluded from the count
+ * don't advance the number and are written as implicit: a pickup gets "0",
+ * later ones (e.g. the halves of a split bar) "X1", "X2", ... Number offsets
+ * accumulate from their measure on.
+ */
+export function computeMeasureNumbers(score: MscxScore): { number: string; implicit: boolean }[] {
+  const staves = Array.from(score.staffData.values());
+  const measureCount = staves[0]?.length ?? 0;
+  const numbers: { number: string; implicit: boolean }[] = [];
+  let measureNo = 0;
+  let counted = 0;
+  let irregularNo = 0;
+
+  for (let m = 0; m < measureCount; m++) {
+    // Numbering flags are written on the first staff only; read them from any
+    const measures = staves.map(staff => staff[m]).filter(sm => sm !== undefined);
+    const irregular = measures.some(sm => sm.irregular);
+    measureNo += measures.find(sm => sm.noOffset)?.noOffset ?? 0;
+
+    if (!irregular) {
+      numbers.push({ number: String(measureNo + 1), implicit: false });
+      measureNo++;
+      counted++;
+    } else if (counted === 0) {
+      numbers.push({ number: "0", implicit: true });
+    } else {
+      numbers.push({ number: `X${++irregularNo}`, implicit: true });
+    }
   }
-  return baseDuration;
+  return numbers;
 }
 
-/** Compute beat-aware beam groups for a voice. Breaks beams at beat boundaries. */
+/**
+ * Compute beam groups for a voice. Authored beam modes and v2 beam ids are
+ * followed where present; otherwise beams break at beat boundaries, or at the
+ * group boundaries of an additive meter.
+ */
 function computeBeamGroups(
   elements: MscxElement[],
-  timeSig: { beats: number; beatType: number },
+  timeSig: MscxTimeSig,
   division: number
 ): Map<number, string> {
   const beamStatus = new Map<number, string>();
@@ -335,9 +709,26 @@ function computeBeamGroups(
     ? Math.round(division * 3 / 2)
     : division;
 
+  // Additive meters (3+2+2/8): each numerator group is one beat
+  const groupEnds: number[] = [];
+  if (timeSig.groups) {
+    const unitTicks = division * 4 / timeSig.beatType;
+    let end = 0;
+    for (const g of timeSig.groups) {
+      end += g * unitTicks;
+      groupEnds.push(Math.round(end));
+    }
+  }
+  function beatAt(tick: number): number {
+    if (groupEnds.length === 0) return Math.floor(tick / beatTicks);
+    const beat = groupEnds.findIndex(end => tick < end);
+    return beat === -1 ? groupEnds.length : beat;
+  }
+
   let currentTick = 0;
   let groupIndices: number[] = [];
   let groupBeat = 0;
+  let groupBeamId: string | undefined;
 
   function flushGroup() {
     if (groupIndices.length >= 2) {
@@ -348,6 +739,7 @@ function computeBeamGroups(
       beamStatus.set(groupIndices[groupIndices.length - 1], "end");
     }
     groupIndices = [];
+    groupBeamId = undefined;
   }
 
   for (let i = 0; i < elements.length; i++) {
@@ -356,16 +748,33 @@ function computeBeamGroups(
     // Grace notes: skip (don't advance tick, don't participate in beaming)
     if (elem.type === "chord" && elem.graceType) continue;
 
-    const isBeamable = elem.type === "chord" && BEAMABLE.has(elem.durationType);
+    // Two-chord tremolos beam only with each other, by their displayed value
+    if (elem.type === "chord" && (elem.tremolo?.type === "start" || elem.tremolo?.type === "stop")) {
+      flushGroup();
+      if (BEAMABLE.has(doubleDurationType(elem.durationType))) {
+        beamStatus.set(i, elem.tremolo.type === "start" ? "begin" : "end");
+      }
+      currentTick += calcTupletAdjustedDuration(elem);
+      continue;
+    }
+
+    const isBeamable = elem.type === "chord" && BEAMABLE.has(elem.durationType) && elem.beamMode !== "no";
 
     if (isBeamable) {
-      const currentBeat = Math.floor(currentTick / beatTicks);
-      // Break beam at beat boundary
-      if (groupIndices.length > 0 && currentBeat !== groupBeat) {
+      const currentBeat = beatAt(currentTick);
+      // "begin" starts a beam; "mid" (and begin32/begin64, which only split inner beams) extends
+      // it across beats; v2 chords sharing a beam id are one beam
+      const mode = elem.beamMode;
+      const sameBeam = elem.beamId === groupBeamId;
+      const authoredBreak = mode === "begin" || !sameBeam;
+      const authoredJoin = mode === "mid" || mode === "begin32" || mode === "begin64" || (sameBeam && elem.beamId !== undefined);
+      // Otherwise break beam at beat boundary
+      if (groupIndices.length > 0 && (authoredBreak || (!authoredJoin && currentBeat !== groupBeat))) {
         flushGroup();
       }
-      if (groupIndices.length === 0) groupBeat = Math.floor(currentTick / beatTicks);
+      if (groupIndices.length === 0) groupBeat = currentBeat;
       groupIndices.push(i);
+      groupBeamId = elem.beamId;
       currentTick += calcTupletAdjustedDuration(elem);
     } else {
       flushGroup();
@@ -385,16 +794,35 @@ function computeBeamGroups(
 function emitVoiceElements(
   doc: Document, measureEl: Element, voice: MscxVoice,
   voiceNum: number, staffNum: number, isMultiStaff: boolean,
-  isTransposing: boolean, part: MscxPart, division: number,
-  timeSig: { beats: number; beatType: number },
-  pendingLabels: Map<number, string>,
+  isTransposing: boolean, part: MscxPart, partId: string, division: number,
+  timeSig: MscxTimeSig, measureDuration: number, barlineTicks: Set<number>,
+  pendingLabels: Map<number, string>, melismas: Melismas,
   stemDirection?: string
 ): void {
-  const measureDuration = calcMeasureDuration(timeSig, division);
   const beamGroups = computeBeamGroups(voice.elements, timeSig, division);
+  // Direction of the authored beam currently being written
+  let beamDirection: string | undefined;
+  // Durations are written in score time: positions on a local time signature's
+  // staff scale by its stretch, rounded so the voice still adds up
+  const stretch = timeSig.stretch ?? 1;
+  let tick = voice.startOffset ?? 0;
 
   for (let i = 0; i < voice.elements.length; i++) {
     const elem = voice.elements[i];
+    const position = Math.round(tick / stretch);
+    if (elem.type === "rest" && elem.isMeasureRest) tick += measureDuration * stretch;
+    else if (!(elem.type === "chord" && elem.graceType)) tick += calcTupletAdjustedDuration(elem);
+    const duration = Math.round(tick / stretch) - position;
+    // Barlines within the measure span the part; every staff and voice may have a
+    // copy, so only the first one written at a position counts
+    if (elem.barline && staffNum === 1 && !barlineTicks.has(position)) {
+      barlineTicks.add(position);
+      emitMidBarline(doc, measureEl, elem.barline);
+    }
+    // Chord symbol precedes the chord or rest at its tick
+    if (elem.harmony) {
+      emitHarmony(doc, measureEl, elem.harmony, staffNum, isMultiStaff, isTransposing, part);
+    }
     if (elem.type === "chord") {
       // Emit dynamic direction before the chord
       if (elem.dynamic) {
@@ -410,19 +838,95 @@ function emitVoiceElements(
           emitWedgeDirection(doc, measureEl, hp.subtype === 0 ? "crescendo" : "diminuendo", hp.number, staffNum, isMultiStaff);
         }
       }
-      emitChord(doc, measureEl, elem, voiceNum, staffNum, isMultiStaff, isTransposing, part, pendingLabels, beamGroups.get(i), stemDirection);
+      // Emit ottava start before the chord
+      if (elem.ottavaStart) {
+        emitOctaveShiftDirection(doc, measureEl, elem.ottavaStart, false, staffNum, isMultiStaff);
+      }
+      // Emit pedal start/change before the chord
+      if (elem.pedalStart) {
+        emitPedalDirection(doc, measureEl, elem.pedalStart, staffNum, isMultiStaff);
+      }
+      // Cross-staff chords keep their voice (and beams) but are written on the neighbouring staff
+      const chordStaff = isMultiStaff && elem.staffMove
+        ? Math.min(Math.max(staffNum + elem.staffMove, 1), part.staffIds.length)
+        : staffNum;
+      // Authored stems win over the voice default; a beam's direction covers all of its chords
+      const beamStatus = beamGroups.get(i);
+      if (!elem.graceType && beamStatus !== "continue" && beamStatus !== "end") {
+        beamDirection = elem.beamDirection;
+      }
+      const chordStem = elem.stemDirection ?? (elem.graceType ? undefined : beamDirection) ?? stemDirection;
+      emitChord(doc, measureEl, elem, duration, voiceNum, chordStaff, isMultiStaff, isTransposing, part, partId, pendingLabels, melismas, beamStatus, chordStem);
       // Emit hairpin stop directions after the chord
       if (elem.hairpinStops) {
         for (const num of elem.hairpinStops) {
           emitWedgeDirection(doc, measureEl, "stop", num, staffNum, isMultiStaff);
         }
       }
+      // Emit ottava stop after the chord
+      if (elem.ottavaStop) {
+        emitOctaveShiftDirection(doc, measureEl, elem.ottavaStop, true, staffNum, isMultiStaff);
+      }
+      // Emit pedal release after the chord
+      if (elem.pedalStop) {
+        emitPedalDirection(doc, measureEl, elem.pedalStop, staffNum, isMultiStaff);
+      }
     } else {
-      emitRest(doc, measureEl, elem, voiceNum, staffNum, isMultiStaff, division, measureDuration, stemDirection);
+      emitRest(doc, measureEl, elem, duration, voiceNum, staffNum, isMultiStaff, stemDirection);
     }
   }
 }
 
+function emitHarmony(
+  doc: Document, measureEl: Element, harmony: MscxHarmony,
+  staffNum: number, isMultiStaff: boolean,
+  isTransposing: boolean, part: MscxPart
+): void {
+  // Chord symbols are stored at concert pitch; transposing parts show written pitch
+  const writtenTpc = (tpc: number): number => isTransposing
+    ? transposeTpc(tpc, -part.instrument.transposeDiatonic, -part.instrument.transposeChromatic)
+    : tpc;
+
+  const harmonyEl = appendElement(doc, measureEl, "harmony");
+  const rootEl = appendElement(doc, harmonyEl, "root");
+  if (harmony.root !== undefined) {
+    const tpc = writtenTpc(harmony.root);
+    appendTextElement(doc, rootEl, "root-step", tpcToStep(tpc));
+    if (tpcToAlter(tpc) !== 0) {
+      appendTextElement(doc, rootEl, "root-alter", String(tpcToAlter(tpc)));
+    }
+  } else {
+    // Text-only symbol (e.g. "N.C."): MusicXML requires a root, hide it with empty text
+    appendTextElement(doc, rootEl, "root-step", "C").setAttribute("text", "");
+  }
+
+  const { kind, degrees } = parseChordName(harmony.name);
+  const kindEl = appendTextElement(doc, harmonyEl, "kind", harmony.root !== undefined ? kind : "none");
+  if (harmony.name) kindEl.setAttribute("text", harmony.name);
+
+  if (harmony.bass !== undefined) {
+    const tpc = writtenTpc(harmony.bass);
+    const bassEl = appendElement(doc, harmonyEl, "bass");
+    appendTextElement(doc, bassEl, "bass-step", tpcToStep(tpc));
+    if (tpcToAlter(tpc) !== 0) {
+      appendTextElement(doc, bassEl, "bass-alter", String(tpcToAlter(tpc)));
+    }
+  }
+
+  if (harmony.root !== undefined) {
+    for (const degree of degrees) {
+      const degreeEl = appendElement(doc, harmonyEl, "degree");
+      appendTextElement(doc, degreeEl, "degree-value", String(degree.value));
+      appendTextElement(doc, degreeEl, "degree-alter", String(degree.alter));
+      appendTextElement(doc, degreeEl, "degree-type", degree.type);
+    }
+  }
+
+  if (isMultiStaff) {
+    appendTextElement(doc, harmonyEl, "staff", String(staffNum));
+  }
+}
+
 function emitDynamicDirection(
   doc: Document, measureEl: Element,
   dynamic: { subtype: string; velocity?: number },
@@ -459,6 +963,57 @@ function emitWedgeDirection(
   }
 }
 
+/**
+ * Emit an <octave-shift> direction. MusicXML notes under the line carry the
+ * sounding pitch, so an 8va (sounding higher) is displayed shifted "down".
+ */
+function emitOctaveShiftDirection(
+  doc: Document, measureEl: Element,
+  ottava: MscxOttava, isStop: boolean,
+  staffNum: number, isMultiStaff: boolean
+): void {
+  const direction = appendElement(doc, measureEl, "direction");
+  direction.setAttribute("placement", ottava.octaves > 0 ? "above" : "below");
+  const dirType = appendElement(doc, direction, "direction-type");
+  const shift = appendElement(doc, dirType, "octave-shift");
+  shift.setAttribute("type", isStop ? "stop" : ottava.octaves > 0 ? "down" : "up");
+  shift.setAttribute("size", String(parseInt(ottava.type) || 8));
+  shift.setAttribute("number", String(ottava.number));
+  if (isMultiStaff) {
+    appendTextElement(doc, direction, "staff", String(staffNum));
+  }
+}
+
+function emitGlissando(
+  doc: Document, notations: Element,
+  glissando: MscxGlissando, type: "start" | "stop"
+): void {
+  const wavy = glissando.lineType === "wavy";
+  const el = appendElement(doc, notations, wavy ? "glissando" : "slide");
+  el.setAttribute("type", type);
+  el.setAttribute("number", String(glissando.number));
+  el.setAttribute("line-type", wavy ? "wavy" : "solid");
+  if (type === "start" && glissando.text) {
+    el.textContent = glissando.text;
+  }
+}
+
+function emitPedalDirection(
+  doc: Document, measureEl: Element,
+  pedal: MscxPedal, staffNum: number, isMultiStaff: boolean
+): void {
+  const direction = appendElement(doc, measureEl, "direction");
+  direction.setAttribute("placement", "below");
+  const dirType = appendElement(doc, direction, "direction-type");
+  const pedalEl = appendElement(doc, dirType, "pedal");
+  pedalEl.setAttribute("type", pedal.type);
+  pedalEl.setAttribute("line", pedal.line ? "yes" : "no");
+  pedalEl.setAttribute("sign", pedal.sign ? "yes" : "no");
+  if (isMultiStaff) {
+    appendTextElement(doc, direction, "staff", String(staffNum));
+  }
+}
+
 function emitExpressionDirection(
   doc: Document, measureEl: Element,
   text: string, staffNum: number, isMultiStaff: boolean
@@ -473,25 +1028,82 @@ function emitExpressionDirection(
   }
 }
 
+function emitMarkerDirection(
+  doc: Document, measureEl: Element,
+  marker: MscxMarker, codaTargets: Map<string, string>
+): void {
+  if (marker.kind === "other" && !marker.text) return;
+  const direction = appendElement(doc, measureEl, "direction");
+  direction.setAttribute("placement", "above");
+  const dirType = appendElement(doc, direction, "direction-type");
+  switch (marker.kind) {
+    case "segno":
+      appendElement(doc, dirType, "segno");
+      appendElement(doc, direction, "sound").setAttribute("segno", marker.label);
+      break;
+    case "coda":
+      appendElement(doc, dirType, "coda");
+      appendElement(doc, direction, "sound").setAttribute("coda", marker.label);
+      break;
+    case "fine":
+      appendTextElement(doc, dirType, "words", marker.text || "Fine");
+      appendElement(doc, direction, "sound").setAttribute("fine", "yes");
+      break;
+    case "toCoda":
+      appendTextElement(doc, dirType, "words", marker.text || "To Coda");
+      appendElement(doc, direction, "sound").setAttribute("tocoda", codaTargets.get(marker.label) ?? "codab");
+      break;
+    default:
+      appendTextElement(doc, dirType, "words", marker.text);
+  }
+}
+
+function emitJumpDirection(doc: Document, measureEl: Element, jump: MscxJump): void {
+  const isDaCapo = jump.jumpTo === "start";
+  const direction = appendElement(doc, measureEl, "direction");
+  direction.setAttribute("placement", "above");
+  const dirType = appendElement(doc, direction, "direction-type");
+  appendTextElement(doc, dirType, "words", jump.text || (isDaCapo ? "D.C." : "D.S."));
+  const sound = appendElement(doc, direction, "sound");
+  if (isDaCapo) {
+    sound.setAttribute("dacapo", "yes");
+  } else {
+    sound.setAttribute("dalsegno", jump.jumpTo);
+  }
+}
+
 function emitChord(
-  doc: Document, measureEl: Element, chord: MscxChord,
+  doc: Document, measureEl: Element, chord: MscxChord, duration: number,
   voiceNum: number, staffNum: number, isMultiStaff: boolean,
-  isTransposing: boolean, part: MscxPart,
-  pendingLabels: Map<number, string>,
+  isTransposing: boolean, part: MscxPart, partId: string,
+  pendingLabels: Map<number, string>, melismas: Melismas,
   beamStatus?: string,
   stemDirection?: string
 ): void {
-  const baseDuration = calcDuration(chord.durationType, chord.dots);
-  const duration = chord.tuplet
-    ? Math.round(baseDuration * chord.tuplet.normalNotes / chord.tuplet.actualNotes)
-    : baseDuration;
-  const xmlType = DURATION_MAP[chord.durationType]?.xmlType ?? "quarter";
+  // Two-chord tremolos show each chord at twice its actual value
+  const isTwoChordTremolo = chord.tremolo?.type === "start" || chord.tremolo?.type === "stop";
+  const displayType = isTwoChordTremolo ? doubleDurationType(chord.durationType) : chord.durationType;
+  // ...which a 2:1 time modification reconciles with their actual duration
+  const displayRatio = displayType !== chord.durationType ? 2 : 1;
+  const xmlType = DURATION_MAP[displayType]?.xmlType ?? "quarter";
 
   const isGrace = !!chord.graceType;
+  const isTab = part.instrument.tabStaves?.has(staffNum) ?? false;
+  const drumset = part.instrument.drumset;
+
+  // Drum kit pieces define a default stem direction (1 = up, 2 = down) unless voices dictate one
+  if (!stemDirection && drumset && chord.notes.length > 0) {
+    const drumStem = drumset.get(chord.notes[0].pitch)?.stem;
+    if (drumStem === 1) stemDirection = "up";
+    else if (drumStem === 2) stemDirection = "down";
+  }
 
   for (let n = 0; n < chord.notes.length; n++) {
     const note = chord.notes[n];
     const noteEl = appendElement(doc, measureEl, "note");
+    if (note.visible === false) {
+      noteEl.setAttribute("print-object", "no");
+    }
 
     // Grace note element (before chord/pitch)
     if (isGrace && n === 0) {
@@ -502,25 +1114,45 @@ function emitChord(
       }
     }
 
+    // Notes that don't play are cue notes (MusicXML allows no <tie> on them)
+    const isCue = !isGrace && note.play === false;
+    if (isCue) {
+      appendElement(doc, noteEl, "cue");
+    }
+
     // Subsequent notes in a chord get <chord/>
     if (n > 0) {
       appendElement(doc, noteEl, "chord");
     }
 
-    // Pitch
-    const pitchEl = appendElement(doc, noteEl, "pitch");
-    let useTpc = note.tpc;
-    let useMidi = note.pitch;
-    if (isTransposing && note.tpc2 !== undefined) {
-      useTpc = note.tpc2;
-      useMidi = note.pitch - part.instrument.transposeChromatic;
-    }
-    const { step, alter, octave } = tpcToPitch(useTpc, useMidi);
-    appendTextElement(doc, pitchEl, "step", step);
-    if (alter !== 0) {
-      appendTextElement(doc, pitchEl, "alter", String(alter));
+    if (drumset) {
+      // Percussion: staff position from the drum kit line, or from the pitch as a fallback
+      const unpitched = appendElement(doc, noteEl, "unpitched");
+      const display = note.line !== undefined
+        ? percussionLineToDisplay(note.line)
+        : tpcToPitch(note.tpc, note.pitch);
+      appendTextElement(doc, unpitched, "display-step", display.step);
+      appendTextElement(doc, unpitched, "display-octave", String(display.octave));
+    } else {
+      // Pitch
+      const pitchEl = appendElement(doc, noteEl, "pitch");
+      let useTpc = note.tpc;
+      let useMidi = note.pitch;
+      if (isTransposing && note.tpc2 !== undefined) {
+        useTpc = note.tpc2;
+        useMidi = note.pitch - part.instrument.transposeChromatic;
+      }
+      // MSCX stores the written pitch; under an <octave-shift> MusicXML wants the sounding one
+      if (chord.ottavaShift) {
+        useMidi += 12 * chord.ottavaShift;
+      }
+      const { step, alter, octave } = tpcToPitch(useTpc, useMidi);
+      appendTextElement(doc, pitchEl, "step", step);
+      if (alter !== 0) {
+        appendTextElement(doc, pitchEl, "alter", String(alter));
+      }
+      appendTextElement(doc, pitchEl, "octave", String(octave));
     }
-    appendTextElement(doc, pitchEl, "octave", String(octave));
 
     // Duration (skip for grace notes)
     if (!isGrace) {
@@ -528,31 +1160,37 @@ function emitChord(
     }
 
     // Tie
-    if (note.tieStart) {
+    if (note.tieStart && !isCue) {
       const tie = appendElement(doc, noteEl, "tie");
       tie.setAttribute("type", "start");
     }
-    if (note.tieEnd) {
+    if (note.tieEnd && !isCue) {
       const tie = appendElement(doc, noteEl, "tie");
       tie.setAttribute("type", "stop");
     }
 
+    // Drum kit piece reference
+    if (drumset?.has(note.pitch)) {
+      appendElement(doc, noteEl, "instrument").setAttribute("id", drumInstrumentId(partId, note.pitch));
+    }
+
     // Voice
     appendTextElement(doc, noteEl, "voice", String(voiceNum));
 
-    // Type
-    appendTextElement(doc, noteEl, "type", xmlType);
+    // Type (small notes and chords are drawn cue-sized)
+    const typeEl = appendTextElement(doc, noteEl, "type", xmlType);
+    if (chord.small || note.small) {
+      typeEl.setAttribute("size", "cue");
+    }
 
     // Dots
     for (let d = 0; d < chord.dots; d++) {
       appendElement(doc, noteEl, "dot");
     }
 
-    // Time modification (for tuplets)
-    if (chord.tuplet) {
-      const timeMod = appendElement(doc, noteEl, "time-modification");
-      appendTextElement(doc, timeMod, "actual-notes", String(chord.tuplet.actualNotes));
-      appendTextElement(doc, timeMod, "normal-notes", String(chord.tuplet.normalNotes));
+    // Time modification (for tuplets and two-chord tremolos)
+    if (chord.tuplet || displayRatio !== 1) {
+      emitTimeModification(doc, noteEl, chord.tuplet, xmlType, displayRatio);
     }
 
     // Accidental
@@ -563,11 +1201,19 @@ function emitChord(
       }
     }
 
-    // Stem direction (for multi-voice staves)
+    // Stem direction (authored, or implied by the voice on multi-voice staves)
     if (stemDirection) {
       appendTextElement(doc, noteEl, "stem", stemDirection);
     }
 
+    // Notehead (head group, or the percussion kit piece's, e.g. x-heads for cymbals)
+    if (note.headType) {
+      const notehead = NOTEHEAD_MAP[note.headType];
+      if (notehead && notehead !== "normal") {
+        appendTextElement(doc, noteEl, "notehead", notehead);
+      }
+    }
+
     // Staff (multi-staff parts)
     if (isMultiStaff) {
       appendTextElement(doc, noteEl, "staff", String(staffNum));
@@ -587,7 +1233,12 @@ function emitChord(
     const hasArpeggio = chord.arpeggio !== undefined;
     const hasFermata = n === 0 && !!chord.fermata;
     const hasFingering = !!note.fingering;
-    if (hasTie || hasSlur || hasTuplet || hasOrnaments || hasArticulations || hasArpeggio || hasFermata || hasFingering) {
+    const hasFret = isTab && note.fret !== undefined && note.string !== undefined;
+    const hasGlissando = !!(note.glissandoStart || note.glissandoStop);
+    const hasWavyLine = n === 0 && !!(chord.wavyLineStart || chord.wavyLineStop);
+    const hasTremolo = n === 0 && !!chord.tremolo;
+    if (hasTie || hasSlur || hasTuplet || hasOrnaments || hasArticulations || hasArpeggio || hasFermata || hasFingering || hasFret ||
+        hasGlissando || hasWavyLine || hasTremolo) {
       const notations = appendElement(doc, noteEl, "notations");
       if (note.tieEnd) {
         const tied = appendElement(doc, notations, "tied");
@@ -616,15 +1267,14 @@ function emitChord(
       }
       // Tuplet start/stop (only on first note)
       if (n === 0 && chord.tuplet) {
-        if (chord.tuplet.isStart) {
-          const tupEl = appendElement(doc, notations, "tuplet");
-          tupEl.setAttribute("type", "start");
-          tupEl.setAttribute("bracket", "yes");
-        }
-        if (chord.tuplet.isStop) {
-          const tupEl = appendElement(doc, notations, "tuplet");
-          tupEl.setAttribute("type", "stop");
-        }
+        emitTupletNotations(doc, notations, chord.tuplet);
+      }
+      // Glissando/portamento lines (per note; straight lines are slides)
+      if (note.glissandoStop) {
+        emitGlissando(doc, notations, note.glissandoStop, "stop");
+      }
+      if (note.glissandoStart) {
+        emitGlissando(doc, notations, note.glissandoStart, "start");
       }
       // Ornaments, articulations, technical, fermata (only on first note)
       if (n === 0) {
@@ -658,11 +1308,31 @@ function emitChord(
           }
         }
 
-        if (ornamentXmls.length > 0) {
+        // Trill lines start with a trill sign unless the chord already has one
+        if (chord.wavyLineStart?.trillMark && !ornamentXmls.includes("trill-mark")) {
+          ornamentXmls.unshift("trill-mark");
+        }
+        if (ornamentXmls.length > 0 || hasWavyLine || hasTremolo) {
           const ornWrap = appendElement(doc, notations, "ornaments");
           for (const xmlEl of ornamentXmls) {
             appendElement(doc, ornWrap, xmlEl);
           }
+          // Tremolo strokes
+          if (chord.tremolo) {
+            const tremEl = appendTextElement(doc, ornWrap, "tremolo", String(chord.tremolo.strokes));
+            tremEl.setAttribute("type", chord.tremolo.type);
+          }
+          // Trill/vibrato extension lines
+          if (chord.wavyLineStart) {
+            const wavyEl = appendElement(doc, ornWrap, "wavy-line");
+            wavyEl.setAttribute("type", "start");
+            wavyEl.setAttribute("number", String(chord.wavyLineStart.number));
+          }
+          if (chord.wavyLineStop) {
+            const wavyEl = appendElement(doc, ornWrap, "wavy-line");
+            wavyEl.setAttribute("type", "stop");
+            wavyEl.setAttribute("number", String(chord.wavyLineStop.number));
+          }
         }
         if (articulationXmls.length > 0) {
           const artWrap = appendElement(doc, notations, "articulations");
@@ -702,10 +1372,16 @@ function emitChord(
         else if (chord.arpeggio === 2) arpEl.setAttribute("direction", "down");
       }
 
-      // Fingering
-      if (hasFingering) {
+      // Fingering and tablature string/fret (MusicXML strings are 1-based from the highest)
+      if (hasFingering || hasFret) {
         const techWrap = appendElement(doc, notations, "technical");
-        appendTextElement(doc, techWrap, "fingering", note.fingering!);
+        if (hasFingering) {
+          appendTextElement(doc, techWrap, "fingering", note.fingering!);
+        }
+        if (hasFret) {
+          appendTextElement(doc, techWrap, "string", String(note.string! + 1));
+          appendTextElement(doc, techWrap, "fret", String(note.fret));
+        }
       }
     }
 
@@ -728,38 +1404,52 @@ function emitChord(
         if (lyric.syllabic) {
           appendTextElement(doc, lyricEl, "syllabic", lyric.syllabic);
         }
-        appendTextElement(doc, lyricEl, "text", lyric.text);
+        if (lyric.elision) {
+          // Elided syllables share the note, linked by the elision slur
+          appendTextElement(doc, lyricEl, "text", lyric.elision[0]);
+          for (const syllable of lyric.elision.slice(1)) {
+            appendTextElement(doc, lyricEl, "elision", "\u203f");
+            appendTextElement(doc, lyricEl, "text", syllable);
+          }
+        } else {
+          appendTextElement(doc, lyricEl, "text", lyric.text);
+        }
+        if (melismas.starts.has(lyric)) {
+          appendElement(doc, lyricEl, "extend").setAttribute("type", "start");
+        }
+      }
+    }
+
+    // Extender lines ending on this chord
+    if (n === 0) {
+      for (const verse of melismas.stops.get(chord) ?? []) {
+        const lyricEl = appendElement(doc, noteEl, "lyric");
+        lyricEl.setAttribute("number", String(verse + 1));
+        appendElement(doc, lyricEl, "extend").setAttribute("type", "stop");
       }
     }
   }
 }
 
 function emitRest(
-  doc: Document, measureEl: Element, rest: MscxRest,
+  doc: Document, measureEl: Element, rest: MscxRest, duration: number,
   voiceNum: number, staffNum: number, isMultiStaff: boolean,
-  division: number, measureDuration: number,
   stemDirection?: string
 ): void {
   const noteEl = appendElement(doc, measureEl, "note");
+  if (rest.visible === false) {
+    noteEl.setAttribute("print-object", "no");
+  }
   appendElement(doc, noteEl, "rest");
 
-  let duration: number;
-  let xmlType: string;
-
-  if (rest.isMeasureRest) {
-    duration = measureDuration;
-    xmlType = "whole";
-  } else {
-    const baseDuration = calcDuration(rest.durationType, rest.dots);
-    duration = rest.tuplet
-      ? Math.round(baseDuration * rest.tuplet.normalNotes / rest.tuplet.actualNotes)
-      : baseDuration;
-    xmlType = DURATION_MAP[rest.durationType]?.xmlType ?? "quarter";
-  }
+  const xmlType = rest.isMeasureRest ? "whole" : DURATION_MAP[rest.durationType]?.xmlType ?? "quarter";
 
   appendTextElement(doc, noteEl, "duration", String(duration));
   appendTextElement(doc, noteEl, "voice", String(voiceNum));
-  appendTextElement(doc, noteEl, "type", xmlType);
+  const typeEl = appendTextElement(doc, noteEl, "type", xmlType);
+  if (rest.small) {
+    typeEl.setAttribute("size", "cue");
+  }
 
   for (let d = 0; d < rest.dots; d++) {
     appendElement(doc, noteEl, "dot");
@@ -767,9 +1457,7 @@ function emitRest(
 
   // Time modification (for tuplets)
   if (rest.tuplet) {
-    const timeMod = appendElement(doc, noteEl, "time-modification");
-    appendTextElement(doc, timeMod, "actual-notes", String(rest.tuplet.actualNotes));
-    appendTextElement(doc, timeMod, "normal-notes", String(rest.tuplet.normalNotes));
+    emitTimeModification(doc, noteEl, rest.tuplet, xmlType);
   }
 
   if (stemDirection) {
@@ -783,16 +1471,91 @@ function emitRest(
   // Tuplet notations (start/stop)
   if (rest.tuplet && (rest.tuplet.isStart || rest.tuplet.isStop)) {
     const notations = appendElement(doc, noteEl, "notations");
-    if (rest.tuplet.isStart) {
-      const tupEl = appendElement(doc, notations, "tuplet");
-      tupEl.setAttribute("type", "start");
-      tupEl.setAttribute("bracket", "yes");
-    }
-    if (rest.tuplet.isStop) {
-      const tupEl = appendElement(doc, notations, "tuplet");
-      tupEl.setAttribute("type", "stop");
+    emitTupletNotations(doc, notations, rest.tuplet);
+  }
+}
+
+/**
+ * Time modification with the combined ratio of all nesting levels. A single
+ * tuplet counted in a different value than the note's own (e.g. a quarter in
+ * an eighth-note triplet) also names that value as normal-type.
+ */
+/**
+ * Time modification of a tuplet member, multiplied by the ratio of a value
+ * shown longer than it plays (two-chord tremolos show 2:1).
+ */
+function emitTimeModification(
+  doc: Document, noteEl: Element, info: MscxTupletInfo | undefined, xmlType: string, displayRatio = 1
+): void {
+  const timeMod = appendElement(doc, noteEl, "time-modification");
+  appendTextElement(doc, timeMod, "actual-notes", String((info?.actualNotes ?? 1) * displayRatio));
+  appendTextElement(doc, timeMod, "normal-notes", String(info?.normalNotes ?? 1));
+  const baseType = info && info.stack.length === 1 && info.stack[0].baseNote
+    ? DURATION_MAP[info.stack[0].baseNote]?.xmlType
+    : undefined;
+  if (baseType && baseType !== xmlType) {
+    appendTextElement(doc, timeMod, "normal-type", baseType);
+  }
+}
+
+/** Tuplet start/stop notations, numbered by nesting level (1 = outermost). */
+function emitTupletNotations(doc: Document, notations: Element, info: MscxTupletInfo): void {
+  for (const level of info.startLevels) {
+    const tuplet = info.stack[level];
+    const tupEl = appendElement(doc, notations, "tuplet");
+    tupEl.setAttribute("type", "start");
+    tupEl.setAttribute("number", String(level + 1));
+    tupEl.setAttribute("bracket", tuplet.bracket === "hide" ? "no" : "yes");
+    // MusicXML shows the actual count ("actual"), the full ratio ("both") or nothing
+    tupEl.setAttribute("show-number",
+      tuplet.numberDisplay === "ratio" ? "both" : tuplet.numberDisplay === "none" ? "none" : "actual");
+    const baseType = tuplet.baseNote ? DURATION_MAP[tuplet.baseNote]?.xmlType : undefined;
+    for (const [tag, count] of [["tuplet-actual", tuplet.actualNotes], ["tuplet-normal", tuplet.normalNotes]] as const) {
+      const portion = appendElement(doc, tupEl, tag);
+      appendTextElement(doc, portion, "tuplet-number", String(count));
+      if (baseType) appendTextElement(doc, portion, "tuplet-type", baseType);
     }
   }
+  for (const level of info.stopLevels) {
+    const tupEl = appendElement(doc, notations, "tuplet");
+    tupEl.setAttribute("type", "stop");
+    tupEl.setAttribute("number", String(level + 1));
+  }
+}
+
+/** MusicXML bar-style of each MuseScore barline type */
+const BAR_STYLES: Record<MscxBarlineType, string> = {
+  "normal": "regular", "double": "light-light", "end": "light-heavy", "reverse-end": "heavy-light",
+  "heavy": "heavy", "double-heavy": "heavy-heavy", "dashed": "dashed", "dotted": "dotted",
+  "start-repeat": "heavy-light", "end-repeat": "light-heavy", "end-start-repeat": "light-heavy",
+};
+
+/** Tick and short barlines keep their span whatever the type. */
+function barStyle(barline: MscxBarline): string {
+  return barline.span ?? BAR_STYLES[barline.type];
+}
+
+function emitMidBarline(doc: Document, measureEl: Element, barline: MscxBarline): void {
+  const barlineEl = appendElement(doc, measureEl, "barline");
+  barlineEl.setAttribute("location", "middle");
+  appendTextElement(doc, barlineEl, "bar-style", barStyle(barline));
+  if (barline.type !== "start-repeat" && barline.type !== "end-repeat" && barline.type !== "end-start-repeat") return;
+  const repeat = appendElement(doc, barlineEl, "repeat");
+  repeat.setAttribute("direction", barline.type === "start-repeat" ? "forward" : "backward");
+}
+
+function emitEnding(doc: Document, barline: Element, volta: MscxVolta, type: string): void {
+  // Only the start ending carries the printed text
+  const ending = type === "start"
+    ? appendTextElement(doc, barline, "ending", volta.text)
+    : appendElement(doc, barline, "ending");
+  ending.setAttribute("number", volta.endings.join(", "));
+  ending.setAttribute("type", type);
+}
+
+/** MusicXML instrument ID of a drum kit piece (MIDI pitch + 1, as MuseScore exports it). */
+function drumInstrumentId(partId: string, pitch: number): string {
+  return `${partId}-I${pitch + 1}`;
 }
 
 function emitBackup(doc: Document, measureEl: Element, duration: number): void {
@@ -805,12 +1568,73 @@ function emitForward(doc: Document, measureEl: Element, duration: number): void
   appendTextElement(doc, forward, "duration", String(duration));
 }
 
-/** Find the current time signature effective at measure index m. */
-function findCurrentTimeSig(score: MscxScore, part: MscxPart, measureIndex: number): { beats: number; beatType: number } {
-  const staffMeasures = score.staffData.get(part.staffIds[0]);
+/**
+ * Find voltas starting or ending at measure index m. Voltas are system-level
+ * (MuseScore stores them on the top staff only), so every part gets the endings.
+ */
+function findVoltas(score: MscxScore, measureIndex: number): { start?: MscxVolta; stop?: MscxVolta } {
+  const result: { start?: MscxVolta; stop?: MscxVolta } = {};
+  for (const staffMeasures of score.staffData.values()) {
+    for (let i = 0; i <= measureIndex && i < staffMeasures.length; i++) {
+      const volta = staffMeasures[i].volta;
+      if (!volta) continue;
+      if (i === measureIndex) result.start = volta;
+      if (i + volta.measureCount - 1 === measureIndex) result.stop = volta;
+    }
+    if (result.start || result.stop) break;
+  }
+  return result;
+}
+
+/**
+ * Map each "To Coda" marker label to the coda label playback continues at,
+ * taken from the jumps that play until that marker (e.g. D.S. al Coda).
+ */
+function collectCodaTargets(score: MscxScore): Map<string, string> {
+  const targets = new Map<string, string>();
+  for (const staffMeasures of score.staffData.values()) {
+    for (const measure of staffMeasures) {
+      for (const jump of measure.jumps ?? []) {
+        if (jump.continueAt) targets.set(jump.playUntil, jump.continueAt);
+      }
+    }
+  }
+  return targets;
+}
+
+/** Find the instrument change written in measure m on any staff of the part. */
+function findInstrumentChange(score: MscxScore, part: MscxPart, m: number): MscxInstrumentChange | undefined {
+  for (const staffId of part.staffIds) {
+    const change = score.staffData.get(staffId)?.[m]?.instrumentChange;
+    if (change) return change;
+  }
+  return undefined;
+}
+
+/**
+ * The instrument a part plays in each measure. A change brings new names and
+ * transposition; staff setup (clefs, tablature, drum kit) stays the part's.
+ */
+function instrumentsByMeasure(score: MscxScore, part: MscxPart, measureCount: number): MscxInstrument[] {
+  const instruments: MscxInstrument[] = [];
+  let current = part.instrument;
+  for (let m = 0; m < measureCount; m++) {
+    const change = findInstrumentChange(score, part, m);
+    if (change) {
+      const { longName, shortName, transposeDiatonic, transposeChromatic } = change.instrument;
+      current = { ...part.instrument, longName, shortName, transposeDiatonic, transposeChromatic };
+    }
+    instruments.push(current);
+  }
+  return instruments;
+}
+
+/** Find the time signature of a staff effective at measure index m. */
+function findCurrentTimeSig(score: MscxScore, staffId: string, measureIndex: number): MscxTimeSig {
+  const staffMeasures = score.staffData.get(staffId);
   if (!staffMeasures) return { beats: 4, beatType: 4 };
 
-  let current = { beats: 4, beatType: 4 };
+  let current: MscxTimeSig = { beats: 4, beatType: 4 };
   for (let i = 0; i <= measureIndex && i < staffMeasures.length; i++) {
     if (staffMeasures[i].timeSig) {
       current = staffMeasures[i].timeSig!;
@@ -820,10 +1644,53 @@ function findCurrentTimeSig(score: MscxScore, part: MscxPart, measureIndex: numb
 }
 
 /** Calculate measure duration in ticks from time signature. */
-function calcMeasureDuration(timeSig: { beats: number; beatType: number }, division: number): number {
+function calcMeasureDuration(timeSig: MscxTimeSig, division: number): number {
   return timeSig.beats * (4 / timeSig.beatType) * division;
 }
 
+/**
+ * Duration of a staff's measure in score ticks. An actual length (pickups,
+ * irregular bars) is already in score time; a local time signature's length
+ * shrinks or grows by its stretch.
+ */
+function calcStaffMeasureDuration(timeSig: MscxTimeSig, len: number | undefined, division: number): number {
+  return len ?? Math.round(calcMeasureDuration(timeSig, division) / (timeSig.stretch ?? 1));
+}
+
+/** MusicXML key-accidental of each alteration */
+const KEY_ACCIDENTALS: Record<number, string> = {
+  "-2": "flat-flat", "-1": "flat", "0": "natural", "1": "sharp", "2": "double-sharp",
+};
+
+/** Emit a <key>: traditional (fifths and mode) or, for custom keys, step by step. */
+function emitKeySignature(doc: Document, attrs: Element, keySig: MscxKeySig): void {
+  const key = appendElement(doc, attrs, "key");
+  if (keySig.custom) {
+    for (const { step, alter } of keySig.custom) {
+      appendTextElement(doc, key, "key-step", step);
+      appendTextElement(doc, key, "key-alter", String(alter));
+      appendTextElement(doc, key, "key-accidental", KEY_ACCIDENTALS[alter]);
+    }
+    return;
+  }
+  appendTextElement(doc, key, "fifths", String(keySig.fifths));
+  if (keySig.mode) appendTextElement(doc, key, "mode", keySig.mode);
+}
+
+function sameTimeSig(a: MscxTimeSig, b: MscxTimeSig): boolean {
+  return a.beats === b.beats && a.beatType === b.beatType && a.symbol === b.symbol &&
+    a.groups?.join("+") === b.groups?.join("+");
+}
+
+/** Emit a <time>; staffNum restricts it to one staff of the part. */
+function emitTimeSignature(doc: Document, attrs: Element, timeSig: MscxTimeSig, staffNum?: number): void {
+  const time = appendElement(doc, attrs, "time");
+  if (staffNum !== undefined) time.setAttribute("number", String(staffNum));
+  if (timeSig.symbol) time.setAttribute("symbol", timeSig.symbol);
+  appendTextElement(doc, time, "beats", timeSig.groups?.join("+") ?? String(timeSig.beats));
+  appendTextElement(doc, time, "beat-type", String(timeSig.beatType));
+}
+
 // --- DOM helpers ---
 
 function appendElement(doc: Document, parent: Element, tagName: string): Element {
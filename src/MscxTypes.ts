@@ -8,11 +8,56 @@ export interface MscxScore {
   title: string;
   composer: string;
   lyricist: string;
+  /** Further front-matter texts (subtitle, arranger, copyright, ...) */
+  metadata: MscxMetadata;
+  /** Page size and margins, used to position the credits */
+  page: MscxPageLayout;
   parts: MscxPart[];
+  /** Brackets and braces joining several parts (e.g. the choir of a choir + organ score) */
+  partGroups: MscxPartGroup[];
   /** Map from staff ID (string) to array of measures for that staff. */
   staffData: Map<string, MscxMeasure[]>;
 }
 
+export interface MscxMetadata {
+  subtitle: string;
+  arranger: string;
+  poet: string;
+  translator: string;
+  copyright: string;
+  /** Where the score was published, usually a URL */
+  source: string;
+  /** Other texts in the frames before the first measure (e.g. a dedication), in score order */
+  frameTexts: MscxFrameText[];
+}
+
+export interface MscxFrameText {
+  /** Text style, lower case (e.g. "frame", "instrument_excerpt") */
+  style: string;
+  text: string;
+}
+
+export interface MscxPageLayout {
+  /** Page size and margins in inches */
+  width: number;
+  height: number;
+  topMargin: number;
+  bottomMargin: number;
+  leftMargin: number;
+  rightMargin: number;
+  /** Staff space in millimeters */
+  spatium: number;
+}
+
+export interface MscxPartGroup {
+  /** First and last part of the group (indexes into MscxScore.parts) */
+  firstPart: number;
+  lastPart: number;
+  symbol: "bracket" | "brace" | "square" | "line";
+  /** Barlines drawn through the whole group */
+  barline: boolean;
+}
+
 export interface MscxPart {
   /** Staff IDs belonging to this part (e.g., ["1", "2"] for piano). */
   staffIds: string[];
@@ -27,20 +72,139 @@ export interface MscxInstrument {
   transposeChromatic: number;
   /** Clef overrides per staff number within the part (1-indexed). */
   clefs: Map<number, string>;
+  /** Open-string MIDI pitches from <StringData>, lowest string first. */
+  stringTuning?: number[];
+  /** Tablature staves: staff number within the part (1-indexed) → line count. */
+  tabStaves?: Map<number, number>;
+  /** Drum kit definitions keyed by MIDI pitch (instruments with <useDrumset>). */
+  drumset?: Map<number, MscxDrum>;
+}
+
+export interface MscxInstrumentChange {
+  /** The new instrument: names and transposition (staff setup stays with the part) */
+  instrument: MscxInstrument;
+  /** Cue text shown at the change (e.g. "To Picc."), empty if none */
+  text: string;
+}
+
+export interface MscxDrum {
+  /** Instrument name (e.g. "Acoustic Snare") */
+  name: string;
+  /** Notehead group: v3 name (e.g. "cross") or v2 number (e.g. "1") */
+  headType: string;
+  /** Staff position: 0 = top line, increasing downward by half-spaces */
+  line: number;
+  /** Default stem direction: 0 = auto, 1 = up, 2 = down */
+  stem: number;
 }
 
 export interface MscxMeasure {
   number: number;
-  keySig?: number;       // fifths: negative=flats, positive=sharps
-  timeSig?: { beats: number; beatType: number };
+  /** Actual length in ticks when it differs from the time signature (pickups, irregular bars) */
+  len?: number;
+  /** Excluded from the measure count (MuseScore's "irregular" flag) */
+  irregular?: boolean;
+  /** Value added to the measure number from this measure on */
+  noOffset?: number;
+  keySig?: MscxKeySig;
+  timeSig?: MscxTimeSig;
   clef?: string;         // clef change within this measure
   voices: MscxVoice[];
   /** Barline properties */
   startRepeat?: boolean;
   endRepeat?: number;    // repeat count (e.g. 2)
-  endBarline?: string;   // "double", "end", "repeat", etc.
+  endBarline?: MscxBarline;
   /** Tempo marking from <Tempo> element */
   tempo?: MscxTempo;
+  /** Volta (1st/2nd ending) bracket starting in this measure */
+  volta?: MscxVolta;
+  /** Navigation markers (segno, coda, fine, To Coda) from <Marker> elements */
+  markers?: MscxMarker[];
+  /** Jumps (D.C., D.S. al Coda, etc.) from <Jump> elements */
+  jumps?: MscxJump[];
+  /** Size (1, 2 or 4 bars) of the measure-repeat group this measure belongs to */
+  measureRepeat?: number;
+  /** Instrument the part switches to at this measure (e.g. flute to piccolo) */
+  instrumentChange?: MscxInstrumentChange;
+  /** Rehearsal mark text (e.g. "A", "Chorus") */
+  rehearsalMark?: string;
+  /** Authored break after this measure (a section break also starts a new system) */
+  layoutBreak?: "line" | "page" | "section";
+}
+
+export type MscxKeyMode =
+  | "major" | "minor" | "dorian" | "phrygian" | "lydian" | "mixolydian"
+  | "aeolian" | "ionian" | "locrian" | "none";
+
+export interface MscxKeySig {
+  fifths: number;        // negative=flats, positive=sharps
+  /** Mode when given in the score; "none" marks an atonal (open) key */
+  mode?: MscxKeyMode;
+  /** Custom key: the accidentals as drawn, in order (fifths is then 0) */
+  custom?: MscxKeyAccidental[];
+}
+
+export interface MscxKeyAccidental {
+  step: string;          // "C".."B"
+  alter: number;         // -2..2 semitones
+}
+
+export type MscxBarlineType =
+  | "normal" | "double" | "end" | "reverse-end" | "heavy" | "double-heavy"
+  | "dashed" | "dotted" | "start-repeat" | "end-repeat" | "end-start-repeat";
+
+export interface MscxBarline {
+  type: MscxBarlineType;
+  /** Shortened barline: a tick through the top line, or short within the staff */
+  span?: "tick" | "short";
+}
+
+export interface MscxTimeSig {
+  beats: number;
+  beatType: number;
+  /** Drawn as a symbol instead of numbers (C or ¢) */
+  symbol?: "common" | "cut";
+  /** Additive numerator (e.g. [3, 2, 2] for 3+2+2/8); the groups sum to beats */
+  groups?: number[];
+  /**
+   * Local time signature: this staff's meter over the score's (e.g. 0.75 for a
+   * 3/4 staff against 4/4). The staff's notes fill the measure at that ratio.
+   */
+  stretch?: number;
+}
+
+export interface MscxVolta {
+  /** Ending numbers this volta applies to (e.g. [1] or [1, 2]) */
+  endings: number[];
+  /** Bracket text as displayed (e.g. "1." or "1, 2.") */
+  text: string;
+  /** Whether the bracket ends with a downward hook (endHookType 1) */
+  closed: boolean;
+  /** Number of measures the bracket spans, starting with this one */
+  measureCount: number;
+}
+
+export interface MscxMarker {
+  /**
+   * Normalized marker kind. MSCX "codab" is the coda sign, while MSCX "coda"
+   * is the "To Coda" marker.
+   */
+  kind: "segno" | "coda" | "fine" | "toCoda" | "other";
+  /** Label that jumps refer to (e.g. "segno", "codab", "fine") */
+  label: string;
+  /** Display text, empty for symbol-only markers */
+  text: string;
+}
+
+export interface MscxJump {
+  /** Display text (e.g. "D.S. al Coda") */
+  text: string;
+  /** Target marker label, or "start" for D.C. */
+  jumpTo: string;
+  /** Marker label where playback stops or leaves for the coda ("end" if none) */
+  playUntil: string;
+  /** Marker label where playback continues after playUntil (empty if none) */
+  continueAt: string;
 }
 
 export interface MscxTempo {
@@ -64,11 +228,33 @@ export interface MscxVoice {
 
 export type MscxElement = MscxChord | MscxRest;
 
+/** A tuplet group. Nested tuplets (e.g. a triplet inside a quintuplet) form a stack on their members. */
+export interface MscxTuplet {
+  /** MSCX tuplet id (v2) or a generated one (v3+), unique within the staff */
+  id: string;
+  actualNotes: number;
+  normalNotes: number;
+  /** Duration type the ratio counts in (e.g. "eighth" for 3 eighths in the time of 2) */
+  baseNote?: string;
+  /** What the tuplet number shows: the actual count, the full ratio, or nothing */
+  numberDisplay: "number" | "ratio" | "none";
+  /** Bracket visibility; "auto" draws one, as before bracket types were read */
+  bracket: "auto" | "show" | "hide";
+}
+
 export interface MscxTupletInfo {
+  /** Combined ratio of all nesting levels (a triplet inside a quintuplet is 15:8) */
   actualNotes: number;
   normalNotes: number;
+  /** Whether this element starts / ends any of its tuplets */
   isStart: boolean;
   isStop: boolean;
+  /** Enclosing tuplets, outermost first */
+  stack: MscxTuplet[];
+  /** Nesting levels (indexes into stack) starting on this element, outermost first */
+  startLevels: number[];
+  /** Nesting levels ending on this element, innermost first */
+  stopLevels: number[];
 }
 
 export interface MscxChord {
@@ -103,6 +289,72 @@ export interface MscxChord {
   hairpinStops?: number[];
   /** Expression/staff text marking (e.g. "rit.", "a tempo", "grazioso") */
   expressionText?: string;
+  /** Chord symbol at this chord's tick */
+  harmony?: MscxHarmony;
+  /** Barline within the measure, standing before this chord */
+  barline?: MscxBarline;
+  /** Ottava line starts on this chord */
+  ottavaStart?: MscxOttava;
+  /** Ottava line ends on this chord */
+  ottavaStop?: MscxOttava;
+  /** Octaves added to the written pitch to get the sounding pitch while under an ottava line */
+  ottavaShift?: number;
+  /** Pedal pressed (or released and re-pressed) at this chord */
+  pedalStart?: MscxPedal;
+  /** Pedal released after this chord */
+  pedalStop?: MscxPedal;
+  /** Trill or vibrato line starts on this chord */
+  wavyLineStart?: MscxWavyLine;
+  /** Trill or vibrato line ends on this chord */
+  wavyLineStop?: MscxWavyLine;
+  /** Tremolo strokes through the stem, or between this chord and its partner */
+  tremolo?: MscxTremolo;
+  /** Cross-staff move: the chord is drawn on the staff below (+1) or above (-1) its own */
+  staffMove?: number;
+  /** Whole chord drawn cue-sized */
+  small?: boolean;
+  /** Authored beam mode: "begin", "mid", "no", "begin32" or "begin64" (absent = automatic) */
+  beamMode?: string;
+  /** Authored stem direction, overriding the voice default */
+  stemDirection?: "up" | "down";
+  /** v2 beam reference: chords sharing an id are beamed together */
+  beamId?: string;
+  /** Stem direction set on the beam this chord starts (v3+) or belongs to (v2) */
+  beamDirection?: "up" | "down";
+}
+
+export interface MscxTremolo {
+  /**
+   * "single" for one chord, "start"/"stop" on the two chords of a two-chord
+   * tremolo (each displayed at twice its actual value), "unmeasured" for a buzz roll
+   */
+  type: "single" | "start" | "stop" | "unmeasured";
+  /** Number of strokes (r8/c8 = 1, r16/c16 = 2, r32/c32 = 3, r64/c64 = 4) */
+  strokes: number;
+}
+
+export interface MscxWavyLine {
+  /** Wavy-line number for MusicXML start/stop matching (1-6) */
+  number: number;
+  /** Plain trill lines begin with a trill sign; prall and vibrato lines do not */
+  trillMark: boolean;
+}
+
+export interface MscxPedal {
+  type: "start" | "stop" | "change";
+  /** Drawn as a bracket line (false for the "Ped. ... *" text-only style) */
+  line: boolean;
+  /** Shows the "Ped." / "*" sign */
+  sign: boolean;
+}
+
+export interface MscxOttava {
+  /** Ottava number for MusicXML start/stop matching (1-6) */
+  number: number;
+  /** "8va", "8vb", "15ma", "15mb", "22ma" or "22mb" */
+  type: string;
+  /** Octaves the sounding pitch lies above the written pitch (8va = 1, 8vb = -1, 15ma = 2) */
+  octaves: number;
 }
 
 export interface MscxNote {
@@ -113,6 +365,24 @@ export interface MscxNote {
   tieEnd: boolean;
   accidental?: string;   // MSCX accidental subtype
   fingering?: string;    // e.g. "2"
+  fret?: number;         // tablature fret (0 = open string)
+  string?: number;       // tablature string, 0 = highest string
+  headType?: string;     // notehead group (<head>, else the drumset default for percussion)
+  line?: number;         // percussion staff position (0 = top line)
+  glissandoStart?: MscxGlissando; // glissando/portamento line leaving this note
+  glissandoStop?: MscxGlissando;  // glissando/portamento line arriving at this note
+  small?: boolean;       // cue-sized note
+  visible?: boolean;     // false for hidden notes
+  play?: boolean;        // false for notes that don't sound (cue notes)
+}
+
+export interface MscxGlissando {
+  /** Number for MusicXML start/stop matching (1-6) */
+  number: number;
+  /** Wavy lines become <glissando>, straight lines and portamento <slide> */
+  lineType: "straight" | "wavy";
+  /** Text drawn along the line (e.g. "gliss."), empty when hidden */
+  text: string;
 }
 
 export interface MscxRest {
@@ -122,6 +392,23 @@ export interface MscxRest {
   isMeasureRest: boolean;
   /** Tuplet info if this element is part of a tuplet group */
   tuplet?: MscxTupletInfo;
+  /** Chord symbol at this rest's tick */
+  harmony?: MscxHarmony;
+  /** Barline within the measure, standing before this rest */
+  barline?: MscxBarline;
+  /** Cue-sized rest */
+  small?: boolean;
+  /** False for hidden rests */
+  visible?: boolean;
+}
+
+export interface MscxHarmony {
+  /** Root TPC (concert pitch); undefined for text-only symbols like "N.C." */
+  root?: number;
+  /** Bass TPC for slash chords (e.g. the E in C/E) */
+  bass?: number;
+  /** Chord name text following the root (e.g. "m7", "sus4", "7(b9)") */
+  name: string;
 }
 
 export interface MscxLyric {
@@ -130,4 +417,8 @@ export interface MscxLyric {
   text: string;
   /** Syllabic type: single, begin, middle, end */
   syllabic?: string;
+  /** Melisma length in ticks from this chord to the start of the last chord sung to the syllable */
+  melismaTicks?: number;
+  /** Syllables joined by an elision slur (text "a‿o" gives ["a", "o"]) */
+  elision?: string[];
 }
@@ -2,37 +2,93 @@
  * Main public API for displaying MuseScore files in the browser.
  */
 
-import { OpenSheetMusicDisplay, TransposeCalculator, KeyInstruction, KeyEnum } from "opensheetmusicdisplay";
+import { OpenSheetMusicDisplay, TransposeCalculator, KeyEnum } from "opensheetmusicdisplay";
 import { readMscx } from "./MsczReader";
 import { parseMscx } from "./MscxParser";
-import { convertToMusicXml } from "./MscxToMusicXml";
+import { convertToMusicXml, computeMeasureNumbers, ConvertOptions } from "./MscxToMusicXml";
+import { MscxScore, MscxKeySig } from "./MscxTypes";
 
 /** Key signature info: fifths on the circle of fifths (-7..+7) and mode. */
 export interface KeySignatureInfo {
   /** Circle-of-fifths position: negative = flats, positive = sharps, 0 = C major / A minor */
   fifths: number;
-  /** 0 = major, 1 = minor */
+  /** OSMD's KeyEnum: 0 = major, 1 = minor, 2 = none (atonal or custom key), 3 = dorian, … */
   mode: number;
-  /** Human-readable name, e.g. "G major" or "E minor" */
+  /** Human-readable name, e.g. "G major", "E minor" or "D dorian" */
   name: string;
 }
 
-/** Map circle-of-fifths position to major key name. */
-const MAJOR_KEY_NAMES: Record<number, string> = {
-  "-7": "Cb", "-6": "Gb", "-5": "Db", "-4": "Ab", "-3": "Eb", "-2": "Bb", "-1": "F",
-  "0": "C", "1": "G", "2": "D", "3": "A", "4": "E", "5": "B", "6": "F#", "7": "C#",
-};
+/** A key signature and the measure it takes effect on. */
+export interface KeyChangeInfo {
+  /** 0-based measure index, as used by `cursorToMeasure` */
+  measureIndex: number;
+  /** Measure number as displayed */
+  measureNumber: string;
+  key: KeySignatureInfo;
+}
+
+/** A rehearsal mark and the measure it stands on. */
+export interface RehearsalMarkInfo {
+  /** Mark text, e.g. "A" or "Chorus" */
+  text: string;
+  /** Measure number as displayed (e.g. "17", or "0" for a pickup) */
+  measureNumber: string;
+  /** 0-based measure index, as used by `cursorToMeasure` */
+  measureIndex: number;
+}
 
-/** Map circle-of-fifths position to minor key name. */
-const MINOR_KEY_NAMES: Record<number, string> = {
-  "-7": "Ab", "-6": "Eb", "-5": "Bb", "-4": "F", "-3": "C", "-2": "G", "-1": "D",
-  "0": "A", "1": "E", "2": "B", "3": "F#", "4": "C#", "5": "G#", "6": "D#", "7": "A#",
+/** An instrument a part plays from a given measure on. */
+export interface InstrumentTimelineEntry {
+  /** 0-based measure index where the instrument takes over */
+  measureIndex: number;
+  /** Measure number as displayed */
+  measureNumber: string;
+  /** Instrument name, e.g. "Piccolo" */
+  name: string;
+  /** Semitones from written to sounding pitch (e.g. -2 for a clarinet in B♭) */
+  transposeChromatic: number;
+}
+
+/** The instruments one part plays over the score, in order. */
+export interface PartInstrumentTimeline {
+  partName: string;
+  instruments: InstrumentTimelineEntry[];
+}
+
+/** Note names along the circle of fifths, from Fb (8 flats' worth) to B# (12 sharps'). */
+const LINE_OF_FIFTHS = [
+  "Fb", "Cb", "Gb", "Db", "Ab", "Eb", "Bb", "F", "C", "G", "D",
+  "A", "E", "B", "F#", "C#", "G#", "D#", "A#", "E#", "B#",
+];
+
+/** Fifths from a key signature's major tonic to the tonic of each mode. */
+const MODE_TONIC_OFFSETS: Record<number, number> = {
+  [KeyEnum.major]: 0, [KeyEnum.ionian]: 0, [KeyEnum.minor]: 3, [KeyEnum.aeolian]: 3,
+  [KeyEnum.dorian]: 2, [KeyEnum.phrygian]: 4, [KeyEnum.lydian]: -1,
+  [KeyEnum.mixolydian]: 1, [KeyEnum.locrian]: 5,
 };
 
 function keyName(fifths: number, mode: number): string {
-  const modeStr = mode === 1 ? "minor" : "major";
-  const names = mode === 1 ? MINOR_KEY_NAMES : MAJOR_KEY_NAMES;
-  return `${names[fifths] ?? "?"} ${modeStr}`;
+  if (mode === KeyEnum.none) return "Atonal";
+  const tonic = LINE_OF_FIFTHS[fifths + (MODE_TONIC_OFFSETS[mode] ?? 0) + 8];
+  return `${tonic ?? "?"} ${KeyEnum[mode]}`;
+}
+
+/** Key info for a parsed key signature; a score without one is in C major. */
+function keyInfo(keySig: MscxKeySig | undefined): KeySignatureInfo {
+  const fifths = keySig?.fifths ?? 0;
+  if (keySig?.custom) return { fifths, mode: KeyEnum.none, name: "Custom key" };
+  const mode = KeyEnum[keySig?.mode ?? "major"];
+  return { fifths, mode, name: keyName(fifths, mode) };
+}
+
+/** Whether two key signatures are the same key (custom keys compare by their accidentals). */
+function sameKeySig(a: MscxKeySig | undefined, b: MscxKeySig | undefined): boolean {
+  const accidentals = (keySig: MscxKeySig | undefined) =>
+    keySig?.custom?.map(acc => `${acc.step}${acc.alter}`).join(" ");
+  return (a?.fifths ?? 0) === (b?.fifths ?? 0)
+    && (a?.mode ?? "major") === (b?.mode ?? "major")
+    && accidentals(a) === accidentals(b);
 }
 
 export interface MuseScoreDisplayOptions {
@@ -42,6 +98,13 @@ export interface MuseScoreDisplayOptions {
   zoom?: number;
   /** Drawing parameters passed to OSMD. */
   drawingParameters?: string;
+  /** Collapse runs of empty measures into multi-measure rests. Default: false. */
+  multiMeasureRests?: boolean;
+  /**
+   * Keep the system and page breaks laid out in MuseScore instead of letting
+   * OSMD re-flow the measures. Default: false.
+   */
+  layoutBreaks?: boolean;
 }
 
 export class MuseScoreDisplay {
@@ -49,6 +112,10 @@ export class MuseScoreDisplay {
   private osmd: OpenSheetMusicDisplay;
   private _lastMusicXml: string = "";
   private _originalKey: KeySignatureInfo | null = null;
+  private _keyChanges: KeyChangeInfo[] = [];
+  private _rehearsalMarks: RehearsalMarkInfo[] = [];
+  private _instrumentTimeline: PartInstrumentTimeline[] = [];
+  private convertOptions: ConvertOptions;
 
   constructor(container: string | HTMLElement, options?: MuseScoreDisplayOptions) {
     if (typeof container === "string") {
@@ -63,13 +130,23 @@ export class MuseScoreDisplay {
       autoResize: options?.autoResize ?? true,
       drawingParameters: options?.drawingParameters ?? "default",
       autoBeam: true,
+      // Authored breaks arrive as <print new-system/new-page>; OSMD only honors them on request
+      newSystemFromXML: options?.layoutBreaks ?? false,
+      newSystemFromNewPageInXML: options?.layoutBreaks ?? false,
+      newPageFromXML: options?.layoutBreaks ?? false,
     });
 
     this.osmd.TransposeCalculator = new TransposeCalculator();
+    // Printed sheets must carry the copyright line (<rights>), which OSMD hides by default
+    this.osmd.EngravingRules.RenderCopyright = true;
 
     if (options?.zoom) {
       this.osmd.Zoom = options.zoom;
     }
+
+    this.convertOptions = {
+      multiMeasureRests: options?.multiMeasureRests ?? false,
+    };
   }
 
   /**
@@ -105,37 +182,86 @@ export class MuseScoreDisplay {
 
     // Parse to IR
     const score = parseMscx(mscxXml);
+    this._rehearsalMarks = this.collectRehearsalMarks(score);
+    this._instrumentTimeline = this.collectInstrumentTimeline(score);
+    this._keyChanges = this.collectKeyChanges(score);
+    this._originalKey = this._keyChanges[0]?.key ?? null;
 
     // Convert to MusicXML
-    const musicXml = convertToMusicXml(score);
+    const musicXml = convertToMusicXml(score, this.convertOptions);
     this._lastMusicXml = musicXml;
 
     // Load into OSMD and render
     await this.osmd.load(musicXml);
     this.osmd.render();
-
-    // Detect original key signature from the first measure
-    this._originalKey = this.detectKey();
   }
 
-  /** Read key signature from the first measure of the loaded score. */
-  private detectKey(): KeySignatureInfo | null {
-    try {
-      const measures = this.osmd.Sheet?.SourceMeasures;
-      if (!measures || measures.length === 0) return null;
-      const firstEntries = measures[0].FirstInstructionsStaffEntries;
-      if (!firstEntries || firstEntries.length === 0 || !firstEntries[0]) return null;
-      for (const instruction of firstEntries[0].Instructions) {
-        if (instruction instanceof KeyInstruction) {
-          const fifths = instruction.Key;
-          const mode = instruction.Mode === KeyEnum.minor ? 1 : 0;
-          return { fifths, mode, name: keyName(fifths, mode) };
+  /** List the score's rehearsal marks in measure order. */
+  private collectRehearsalMarks(score: MscxScore): RehearsalMarkInfo[] {
+    const marks: RehearsalMarkInfo[] = [];
+    const measureNumbers = computeMeasureNumbers(score);
+    for (let m = 0; m < measureNumbers.length; m++) {
+      // Rehearsal marks are system text, normally written on the top staff only
+      for (const staffMeasures of score.staffData.values()) {
+        const text = staffMeasures[m]?.rehearsalMark;
+        if (text) {
+          marks.push({ text, measureNumber: measureNumbers[m].number, measureIndex: m });
+          break;
         }
       }
-    } catch {
-      // Silently ignore detection failures
     }
-    return null;
+    return marks;
+  }
+
+  /** List each part's instruments: the initial one, then every instrument change. */
+  private collectInstrumentTimeline(score: MscxScore): PartInstrumentTimeline[] {
+    const measureNumbers = computeMeasureNumbers(score);
+    return score.parts.map((part, p) => {
+      const instruments: InstrumentTimelineEntry[] = [{
+        measureIndex: 0,
+        measureNumber: measureNumbers[0]?.number ?? "1",
+        name: part.instrument.longName || part.trackName,
+        transposeChromatic: part.instrument.transposeChromatic,
+      }];
+      for (let m = 0; m < measureNumbers.length; m++) {
+        const change = part.staffIds
+          .map(id => score.staffData.get(id)?.[m]?.instrumentChange)
+          .find(c => c !== undefined);
+        if (!change) continue;
+        const entry = {
+          measureIndex: m,
+          measureNumber: measureNumbers[m].number,
+          name: change.instrument.longName || change.text,
+          transposeChromatic: change.instrument.transposeChromatic,
+        };
+        // A change on the first measure replaces the initial instrument
+        if (m === 0) instruments[0] = entry;
+        else instruments.push(entry);
+      }
+      return { partName: part.trackName || part.instrument.longName || `Part ${p + 1}`, instruments };
+    });
+  }
+
+  /**
+   * List the score's key signatures: the opening key, then every change. Keys
+   * are read from the first pitched part at concert pitch (a transposing
+   * part's staff shows a different key), falling back to the first part.
+   */
+  private collectKeyChanges(score: MscxScore): KeyChangeInfo[] {
+    const measureNumbers = computeMeasureNumbers(score);
+    const pitched = score.parts.filter(p => !p.instrument.drumset);
+    const part = pitched.find(p => p.instrument.transposeChromatic === 0) ?? pitched[0] ?? score.parts[0];
+    const staffMeasures = part ? score.staffData.get(part.staffIds[0]) ?? [] : [];
+
+    const changes: KeyChangeInfo[] = [];
+    let previous: MscxKeySig | undefined;
+    for (let m = 0; m < measureNumbers.length; m++) {
+      const keySig = staffMeasures[m]?.keySig;
+      if (m > 0 && (!keySig || sameKeySig(keySig, previous))) continue;
+      changes.push({ measureIndex: m, measureNumber: measureNumbers[m].number, key: keyInfo(keySig) });
+      previous = keySig;
+    }
+    return changes;
   }
 
   /** Set the zoom level (1.0 = 100%). */
@@ -161,7 +287,7 @@ export class MuseScoreDisplay {
     return this.osmd.Sheet?.Transpose ?? 0;
   }
 
-  /** Get the original key signature detected from the score (before any transposition). */
+  /** Get the opening key signature of the score (before any transposition). */
   get originalKey(): KeySignatureInfo | null {
     return this._originalKey;
   }
@@ -174,11 +300,16 @@ export class MuseScoreDisplay {
    *   For example: 0 = C major/A minor, 1 = G major/E minor, -1 = F major/D minor.
    * @param direction - "auto" picks the shortest interval (default),
    *   "up" always transposes up (0..+11), "down" always transposes down (-11..0).
+   *
+   * Atonal and custom opening keys have no position to transpose from.
    */
   transposeToKey(targetFifths: number, direction: "auto" | "up" | "down" = "auto"): void {
     if (!this._originalKey) {
       throw new Error("No key signature detected in the loaded score");
     }
+    if (this._originalKey.mode === KeyEnum.none) {
+      throw new Error(`The score opens without a tonal key (${this._originalKey.name})`);
+    }
     const deltaFifths = targetFifths - this._originalKey.fifths;
     let semitones = ((deltaFifths * 7) % 12 + 12) % 12; // 0..11
     if (direction === "auto") {
@@ -190,6 +321,23 @@ export class MuseScoreDisplay {
     this.transpose(semitones);
   }
 
+  // --- Score Contents ---
+
+  /** Rehearsal marks of the loaded score, in measure order. */
+  get rehearsalMarks(): RehearsalMarkInfo[] {
+    return this._rehearsalMarks;
+  }
+
+  /** Instruments each part plays over the score (doubling players switch mid-piece). */
+  get instrumentTimeline(): PartInstrumentTimeline[] {
+    return this._instrumentTimeline;
+  }
+
+  /** Key signatures of the loaded score: the opening key, then each key change. */
+  get keyChanges(): KeyChangeInfo[] {
+    return this._keyChanges;
+  }
+
   // --- Cursor ---
 
   /** Show the cursor at its current position. */
@@ -218,6 +366,27 @@ export class MuseScoreDisplay {
     this.osmd.cursor.show();
   }
 
+  /** Move the cursor to the start of a measure (0-based index) and show it. */
+  cursorToMeasure(measureIndex: number): void {
+    const cursor = this.osmd.cursor;
+    cursor.reset();
+    while (!cursor.Iterator.EndReached && cursor.Iterator.CurrentMeasureIndex < measureIndex) {
+      cursor.next();
+    }
+    cursor.show();
+  }
+
+  /**
+   * Move the cursor to the first rehearsal mark with the given text (e.g. "B").
+   * Returns false if the score has no such mark.
+   */
+  cursorToRehearsalMark(text: string): boolean {
+    const mark = this._rehearsalMarks.find(r => r.text === text);
+    if (!mark) return false;
+    this.cursorToMeasure(mark.measureIndex);
+    return true;
+  }
+
   /** Whether the cursor is currently visible. */
   get cursorVisible(): boolean {
     return !this.osmd.cursor.Hidden;
@@ -275,6 +444,10 @@ export class MuseScoreDisplay {
   clear(): void {
     this.osmd.clear();
     this._lastMusicXml = "";
+    this._rehearsalMarks = [];
+    this._instrumentTimeline = [];
+    this._keyChanges = [];
+    this._originalKey = null;
   }
 
   /** Access the underlying OSMD instance for advanced usage. */
@@ -50,6 +50,17 @@ export function tpcToPitch(tpc: number, midiPitch: number): { step: string; alte
   return { step, alter, octave };
 }
 
+// Default spelling per pitch class (sharps, except Eb/Ab/Bb) as TPC values
+const PITCH_CLASS_TPC = [14, 21, 16, 11, 18, 13, 20, 15, 10, 17, 12, 19];
+
+/**
+ * Get a default TPC for a MIDI pitch that has no spelling of its own
+ * (e.g. open-string tunings).
+ */
+export function midiToTpc(midiPitch: number): number {
+  return PITCH_CLASS_TPC[((midiPitch % 12) + 12) % 12];
+}
+
 /**
  * Convert an alter value to MusicXML accidental name.
  */
@@ -63,3 +74,20 @@ export function alterToAccidentalName(alter: number): string | undefined {
     default: return undefined;
   }
 }
+
+/**
+ * Transpose a TPC by an interval given as diatonic steps and chromatic semitones
+ * (same convention as <transposeDiatonic>/<transposeChromatic>).
+ */
+export function transposeTpc(tpc: number, diatonic: number, chromatic: number): number {
+  // Each step on the line of fifths is +4 diatonic steps (mod 7) and +7 semitones (mod 12);
+  // pick the smallest offset satisfying both
+  for (let dist = 0; dist <= 42; dist++) {
+    for (const k of [dist, -dist]) {
+      if ((((k * 4 - diatonic) % 7) + 7) % 7 === 0 && (((k * 7 - chromatic) % 12) + 12) % 12 === 0) {
+        return tpc + k;
+      }
+    }
+  }
+  return tpc;
+}
@@ -1,7 +1,8 @@
 export { MuseScoreDisplay } from "./MuseScoreDisplay";
-export type { MuseScoreDisplayOptions, KeySignatureInfo } from "./MuseScoreDisplay";
+export type { MuseScoreDisplayOptions, KeySignatureInfo, KeyChangeInfo, RehearsalMarkInfo, InstrumentTimelineEntry, PartInstrumentTimeline } from "./MuseScoreDisplay";
 export { readMscx } from "./MsczReader";
 export { parseMscx } from "./MscxParser";
 export { convertToMusicXml } from "./MscxToMusicXml";
+export type { ConvertOptions } from "./MscxToMusicXml";
 export { tpcToPitch, tpcToStep, tpcToAlter, midiToOctave } from "./TpcUtils";
 export * from "./MscxTypes";